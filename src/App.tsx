@@ -1,5 +1,129 @@
-import React, { useEffect, useMemo, useState } from 'react';
-import { supabase, DEFAULT_USER_ID } from './supabaseClient';
+import React, { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import type { Session, SupabaseClient } from '@supabase/supabase-js';
+import { ENERGY_NUTRIENTS, resolveEnergy } from '../supabase/functions/_shared/energy';
+import {
+  BMR_EQUATIONS,
+  DEFAULT_BMR_EQUATION,
+  bmrEquationLabel,
+  bmrFor,
+  effectiveEquation,
+  isBmrEquation,
+  type BmrEquation,
+} from './bmr';
+import {
+  MOVING_AVERAGE_DAYS,
+  dayNumber,
+  latestMetric,
+  parseBodyMetric,
+  sortMetrics,
+  trend,
+  type BodyMetric,
+  type BodyMetricKey,
+  type TrendPoint,
+} from './bodyMetrics';
+import { ef, ff, pf, wf } from './factors';
+import {
+  FDC_BATCH_SIZE,
+  fdcErrorMessage,
+  fdcFetch,
+  fdcProxyAvailable,
+  loadPersonalFdcKey,
+  savePersonalFdcKey,
+} from './fdc';
+import {
+  clearLocalFoods,
+  countLocalFoods,
+  importFdcFiles,
+  localFoodToFdc,
+  searchLocalFoods,
+  type ImportProgress,
+} from './fdcImport';
+import { cacheFood, getCachedFoods } from './foodCache';
+import {
+  INDEXED_DATA_TYPES,
+  indexFoodsLocally,
+  indexRowToFood,
+  rankFoods,
+  type FoodIndexRow,
+  type RankMode,
+} from './foodIndex';
+import {
+  INTAKE_STANDARDS,
+  LIMITED_NUTRIENTS,
+  isIntakeStandard,
+  isOverLimit,
+  percentOfIntake,
+  referenceIntakes,
+  type IntakeStandard,
+  type Intakes,
+} from './intakes';
+import {
+  NUTRIENTS,
+  NUTRIENT_GROUPS,
+  formatNutrient,
+  sumMicros,
+  type NutrientDef,
+} from './nutrients';
+import { getSyncState, replayQueue, subscribeSyncState } from './offlineStore';
+import { MAX_PLAN_FOODS, planDay, type Plan, type PlanFood } from './planner';
+import {
+  CORE_FACTORS,
+  DEFAULT_PROFILE_ID,
+  extraScores,
+  findProfile,
+  isScoreOk,
+  normalizeProfiles,
+  type CoreFactor,
+  type FactorScore,
+  type FactorValues,
+  type ScoringProfile,
+} from './scoring';
+import { LOCAL_USER_ID, backend, mutate, selectRows } from './storage';
+import {
+  suggestFixes,
+  type LoggedFood,
+  type SuggestionFood,
+} from './suggestions';
+import {
+  GRAM_UNIT,
+  displayUnit,
+  foodPortions,
+  fromGrams,
+  parseItemUnit,
+  toGrams,
+  unitOptions,
+  type ItemUnit,
+  type ServingUnit,
+} from './servings';
+import { supabase } from './supabaseClient';
+import type { Row } from './tables';
+import {
+  ENERGY_UNITS,
+  MAX_FOOD_GRAMS,
+  cmToFtIn,
+  energyLabel,
+  energyToKcal,
+  energyValue,
+  formatEnergy,
+  formatMass,
+  ftInToCm,
+  isEnergyUnit,
+  isUnits,
+  kgToLb,
+  lbToKg,
+  lengthToCm,
+  lengthUnit,
+  lengthValue,
+  massToGrams,
+  massUnit,
+  massValue,
+  weightToKg,
+  weightUnit,
+  weightValue,
+  type DisplayUnits,
+  type EnergyUnit,
+  type Units,
+} from './units';
 
 // === Wellness System – Calculator + USDA Search + Food Log (CSV + optional .xlsx) ===
 // Self-contained. Neutral top stat row; metrics badges tint green when OK, and rose when not OK.
@@ -11,6 +135,10 @@ function round(x: any, d = 0) {
   const p = 10 ** d;
   return Math.round((n + Number.EPSILON) * p) / p;
 }
+// Text column of a stored row; empty or missing reads as undefined
+function optionalText(x: unknown): string | undefined {
+  return typeof x === 'string' && x !== '' ? x : undefined;
+}
 function safeNum(x: any, fallback = 0) {
   if (typeof x === 'number' && Number.isFinite(x)) return x;
   const n = Number(x);
@@ -54,18 +182,38 @@ function tidyText(input: any): string {
   return tokens.join('').replace(/\s+/g, ' ').trim();
 }
 
-// ===================== TWS factor helpers =====================
-function ff(cal: number, fiberG: number) {
-  return fiberG > 0 ? cal / fiberG : Infinity;
+// ===================== Calendar date helpers =====================
+// Log days are local calendar dates stored as 'YYYY-MM-DD' (matches food_log.log_date).
+function toDateKey(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+function fromDateKey(key: string): Date {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, (m || 1) - 1, d || 1);
 }
-function pf(cal: number, proteinG: number) {
-  return proteinG > 0 ? cal / proteinG : Infinity;
+function shiftDateKey(key: string, days: number): string {
+  const d = fromDateKey(key);
+  d.setDate(d.getDate() + days);
+  return toDateKey(d);
 }
-function wf(vff: number, vpf: number) {
-  return Number.isFinite(vff) && Number.isFinite(vpf) ? vff + vpf : Infinity;
+function formatDateKey(key: string): string {
+  const today = toDateKey(new Date());
+  if (key === today) return 'Today';
+  if (key === shiftDateKey(today, -1)) return 'Yesterday';
+  if (key === shiftDateKey(today, 1)) return 'Tomorrow';
+  return fromDateKey(key).toLocaleDateString(undefined, {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
 }
-function ef(cal: number, massG: number) {
-  return massG > 0 ? cal / massG : Infinity;
+// Compact form for chart axes
+function shortDateKey(key: string): string {
+  return fromDateKey(key).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
 }
 
 // ===================== USDA parsing helpers =====================
@@ -75,38 +223,6 @@ const NUTR = {
   fat: 1004,
   carbs: 1005,
 } as const;
-const MICROS = [
-  {
-    key: 'fiber',
-    label: 'Fiber',
-    unit: 'g',
-    names: ['fiber', 'dietary fiber', 'total dietary fiber'],
-  },
-  {
-    key: 'sugar',
-    label: 'Sugar',
-    unit: 'g',
-    names: ['sugars', 'sugars, total', 'sugar'],
-  },
-  {
-    key: 'satfat',
-    label: 'Sat Fat',
-    unit: 'g',
-    names: [
-      'saturated fat',
-      'fatty acids, total saturated',
-      'saturatedfat',
-      'saturatedFat',
-    ],
-  },
-  { key: 'sodium', label: 'Sodium', unit: 'mg', names: ['sodium'] },
-  {
-    key: 'cholesterol',
-    label: 'Cholesterol',
-    unit: 'mg',
-    names: ['cholesterol'],
-  },
-] as const;
 function labelPick(obj: any, key: string): number {
   const x = obj?.[key];
   if (!x) return 0;
@@ -118,13 +234,17 @@ function parseNutrients(food: any = {}, basisGrams = 100) {
   const list: any[] = Array.isArray(food?.foodNutrients)
     ? food.foodNutrients
     : [];
-  const byId = (id: number) => {
+  const byId = (id: number, number?: string) => {
     const n =
       list.find((x: any) => x?.nutrientId === id) ||
+      (number &&
+        list.find((x: any) => x?.nutrientNumber === number || x?.number === number)) ||
       list.find(
         (x: any) =>
           x?.nutrient &&
-          (x.nutrient.id === id || x.nutrient.number === String(id))
+          (x.nutrient.id === id ||
+            x.nutrient.number === String(id) ||
+            (number && x.nutrient.number === number))
       );
     return safeNum(n && (n.amount ?? n.value));
   };
@@ -150,23 +270,49 @@ function parseNutrients(food: any = {}, basisGrams = 100) {
   if (!carbs)
     carbs =
       labelPick(label, 'carbohydrates') || labelPick(label, 'carbohydrate');
-  const microsRaw: Record<string, number> = {};
-  for (const m of MICROS) microsRaw[m.key] = byNames(m.names);
-  microsRaw.fiber ||= labelPick(label, 'fiber');
-  microsRaw.sugar ||= labelPick(label, 'sugars');
-  microsRaw.satfat ||= labelPick(label, 'saturatedFat');
-  microsRaw.sodium ||= labelPick(label, 'sodium');
-  microsRaw.cholesterol ||= labelPick(label, 'cholesterol');
+  // Foundation foods often report energy only under the Atwater nutrients
+  const { atwaterSpecific, atwaterGeneral } = ENERGY_NUTRIENTS;
+  energy = resolveEnergy({
+    energy,
+    atwaterSpecific: byId(atwaterSpecific.id, atwaterSpecific.number),
+    atwaterGeneral: byId(atwaterGeneral.id, atwaterGeneral.number),
+    protein,
+    fat,
+    carbs,
+  });
+
+  // Food-specific Atwater factors, published for Foundation and SR Legacy foods
+  const conversion = (Array.isArray(food?.nutrientConversionFactors)
+    ? food.nutrientConversionFactors
+    : []
+  ).find((c: { type?: string }) => String(c?.type || '').includes('CalorieConversionFactor'));
+  const factors: AtwaterFactors | undefined =
+    conversion && safeNum(conversion.proteinValue) > 0
+      ? {
+          protein: safeNum(conversion.proteinValue),
+          fat: safeNum(conversion.fatValue),
+          carbs: safeNum(conversion.carbohydrateValue),
+        }
+      : undefined;
 
+  // Every registry nutrient, by FDC id/number, then by name, then from the label
   const scale = safeNum(basisGrams) / 100;
   const micros: Record<string, number> = {};
-  for (const m of MICROS) micros[m.key] = safeNum(microsRaw[m.key]) * scale;
+  for (const d of NUTRIENTS) {
+    const raw =
+      byId(d.id, d.number) ||
+      (d.names ? byNames(d.names) : 0) ||
+      (d.labelKey ? labelPick(label, d.labelKey) : 0);
+    const value = safeNum(raw) * scale;
+    if (value) micros[d.key] = value;
+  }
   return {
     energy: safeNum(energy) * scale,
     protein: safeNum(protein) * scale,
     fat: safeNum(fat) * scale,
     carbs: safeNum(carbs) * scale,
     micros,
+    factors,
   } as const;
 }
 function safeParse(food: any, basisGrams = 100) {
@@ -181,18 +327,83 @@ function safeParse(food: any, basisGrams = 100) {
       fat: 0,
       carbs: 0,
       micros: {} as Record<string, number>,
+      factors: undefined as AtwaterFactors | undefined,
     };
   }
 }
 
+// WF/EF modes page through the ranking index this many foods at a time
+const RANKED_PAGE_SIZE = 10;
+
+// Per-100 g values and factors for the WF/EF ranking index (foodIndex.ts)
+function toIndexRow(food: any): FoodIndexRow {
+  const n = safeParse(food, 100);
+  const fiber = safeNum(n.micros?.fiber);
+  const vff = ff(n.energy, fiber);
+  const vpf = pf(n.energy, n.protein);
+  const vwf = wf(vff, vpf);
+  const finite = (x: number) => (Number.isFinite(x) ? x : null);
+  return {
+    fdc_id: Number(food?.fdcId),
+    description: String(food?.description ?? ''),
+    data_type: String(food?.dataType ?? ''),
+    calories: n.energy,
+    protein: n.protein,
+    fat: n.fat,
+    carbs: n.carbs,
+    fiber,
+    ff: finite(vff),
+    pf: finite(vpf),
+    wf: finite(vwf),
+    ef: ef(n.energy, 100),
+  };
+}
+
 // ===================== Types & base helpers =====================
 type Sex = 'male' | 'female';
-type Units = 'us' | 'metric';
 type Goal = 'maintain' | 'cut10' | 'cut20' | 'gain10' | 'gain20';
+const GOALS: readonly Goal[] = ['maintain', 'cut10', 'cut20', 'gain10', 'gain20'];
+function isGoal(x: unknown): x is Goal {
+  return GOALS.includes(x as Goal);
+}
+type Meal = 'breakfast' | 'lunch' | 'dinner' | 'snacks';
+// Where a food's calories come from: the USDA/label energy value, or the
+// macros times the general (4/9/4) or the food's own Atwater factors
+type EnergySource = 'label' | 'atwater_general' | 'atwater_specific';
+const ENERGY_SOURCES: ReadonlyArray<{ key: EnergySource; label: string }> = [
+  { key: 'label', label: 'Label / USDA energy' },
+  { key: 'atwater_general', label: 'Atwater general (4/9/4)' },
+  { key: 'atwater_specific', label: 'Atwater specific factors' },
+];
+function isEnergySource(x: unknown): x is EnergySource {
+  return ENERGY_SOURCES.some((s) => s.key === x);
+}
+type AtwaterFactors = { protein: number; fat: number; carbs: number };
+const MEALS: ReadonlyArray<{ key: Meal; label: string }> = [
+  { key: 'breakfast', label: 'Breakfast' },
+  { key: 'lunch', label: 'Lunch' },
+  { key: 'dinner', label: 'Dinner' },
+  { key: 'snacks', label: 'Snacks' },
+];
+function isMeal(x: unknown): x is Meal {
+  return MEALS.some((m) => m.key === x);
+}
+function mealLabel(meal: Meal): string {
+  return MEALS.find((m) => m.key === meal)?.label ?? 'Snacks';
+}
+// Meal a new entry lands in by default, based on the local time of day
+function mealForTime(d: Date): Meal {
+  const h = d.getHours() + d.getMinutes() / 60;
+  if (h >= 4 && h < 10.5) return 'breakfast';
+  if (h >= 10.5 && h < 15) return 'lunch';
+  if (h >= 17 && h < 21.5) return 'dinner';
+  return 'snacks';
+}
 type LogItem = {
   id: string;
   name: string;
   brand?: string;
+  meal: Meal;
   serving: number; // grams
   energy: number;
   protein: number;
@@ -205,9 +416,12 @@ type LogItem = {
     fat: number;
     carbs: number;
     micros: Record<string, number>;
+    factors?: AtwaterFactors;
   };
   fdcId?: number;
   customFoodId?: string;
+  // Unit the amount is entered in; grams when absent
+  unit?: ItemUnit;
   _originalFood?: any;
 };
 function ensureBasePerG(item: any): LogItem {
@@ -232,6 +446,7 @@ function ensureBasePerG(item: any): LogItem {
     id: String(item?.id ?? `${Math.random()}-${Date.now()}`),
     name: String(item?.name ?? 'Food'),
     brand: item?.brand ?? undefined,
+    meal: isMeal(item?.meal) ? item.meal : 'snacks',
     serving: Math.max(0, safeNum(item?.serving, 100)),
     energy: safeNum(item?.energy, 0),
     protein: safeNum(item?.protein, 0),
@@ -241,9 +456,243 @@ function ensureBasePerG(item: any): LogItem {
     _basePerG: basePerG,
     fdcId: item?.fdcId,
     customFoodId: item?.customFoodId,
+    unit: item?.unit,
     _originalFood: item?._originalFood,
   };
 }
+// The same food at another amount
+function itemAtGrams(item: LogItem, grams: number): LogItem {
+  const b = item._basePerG;
+  return {
+    ...item,
+    serving: grams,
+    energy: b.energy * grams,
+    protein: b.protein * grams,
+    fat: b.fat * grams,
+    carbs: b.carbs * grams,
+    micros: Object.fromEntries(
+      Object.entries(b.micros || {}).map(([k, v]) => [k, safeNum(v) * grams])
+    ) as Record<string, number>,
+  };
+}
+// A food_log row as a LogItem
+function logRowToItem(row: Row): LogItem {
+  const serving = Number(row.amount);
+  const basePerG = (row.base_per_g as LogItem['_basePerG'] | null) || {
+    energy: 0,
+    protein: 0,
+    fat: 0,
+    carbs: 0,
+    micros: {},
+  };
+  return ensureBasePerG(
+    itemAtGrams(
+      {
+        id: String(row.id),
+        name: String(row.name ?? ''),
+        meal: isMeal(row.meal) ? row.meal : 'snacks',
+        serving,
+        energy: 0,
+        protein: 0,
+        fat: 0,
+        carbs: 0,
+        micros: {},
+        _basePerG: basePerG,
+        fdcId: safeNum(row.fdc_id) || undefined,
+        customFoodId: optionalText(row.custom_food_id),
+        unit: parseItemUnit(row.unit),
+      },
+      serving
+    )
+  );
+}
+// A custom_foods row as a LogItem at its saved amount. Recipes carry full
+// per-gram nutrients; for the rest, carbs are whatever calories protein leaves.
+function customFoodToItem(cf: Row): LogItem {
+  const amount = Math.max(1, safeNum(cf.amount, 100));
+  const calories = safeNum(cf.calories),
+    protein = safeNum(cf.protein);
+  const derivedCarbs = Math.max(0, calories - protein * 4) / 4;
+  const basePerG = (cf.base_per_g as LogItem['_basePerG'] | null) || {
+    energy: calories / amount,
+    protein: protein / amount,
+    fat: 0,
+    carbs: derivedCarbs / amount,
+    micros: { fiber: safeNum(cf.fiber) / amount },
+  };
+  return itemAtGrams(
+    {
+      id: `custom-${cf.id}`,
+      name: String(cf.name ?? ''),
+      brand: optionalText(cf.brand) || (cf.ingredients ? 'Recipe' : 'Custom'),
+      meal: 'snacks',
+      serving: 0,
+      energy: 0,
+      protein: 0,
+      fat: 0,
+      carbs: 0,
+      micros: {},
+      _basePerG: basePerG,
+      customFoodId: String(cf.id),
+    },
+    amount
+  );
+}
+
+// Per-gram values for a custom food entered as totals for `amount` grams.
+// With neither fat nor carbs given, carbs are whatever calories protein leaves
+// so Atwater calories still match the calories entered.
+function customFoodBasePerG(f: {
+  amount: number;
+  calories: number;
+  protein: number;
+  fat: number | null;
+  carbs: number | null;
+  micros: Record<string, number>;
+}): LogItem['_basePerG'] {
+  const amount = Math.max(1, f.amount);
+  const carbs =
+    f.fat === null && f.carbs === null
+      ? Math.max(0, f.calories - f.protein * 4) / 4
+      : safeNum(f.carbs);
+  return {
+    energy: f.calories / amount,
+    protein: f.protein / amount,
+    fat: safeNum(f.fat) / amount,
+    carbs: carbs / amount,
+    micros: Object.fromEntries(
+      Object.entries(f.micros)
+        .filter(([, v]) => v > 0)
+        .map(([k, v]) => [k, v / amount])
+    ) as Record<string, number>,
+  };
+}
+
+// ===================== Recipes =====================
+// A recipe is a custom food whose nutrients come from its ingredients. Each
+// ingredient keeps its own per-gram values so the recipe can be rebuilt.
+type RecipeIngredient = {
+  name: string;
+  grams: number;
+  fdc_id: number | null;
+  custom_food_id: string | null;
+  base_per_g: LogItem['_basePerG'];
+};
+type RecipeDraft = {
+  name: string;
+  brand: string;
+  ingredients: RecipeIngredient[];
+  // Cooked weight; null means the raw weight of the ingredients
+  yieldGrams: number | null;
+};
+
+function recipeWeight(recipe: RecipeDraft): number {
+  const raw = recipe.ingredients.reduce((a, x) => a + x.grams, 0);
+  return recipe.yieldGrams && recipe.yieldGrams > 0 ? recipe.yieldGrams : raw;
+}
+
+// Per-gram nutrients of the finished dish: ingredient totals over its weight.
+// Energy follows energyKcal: label energy, or 4/9/4 where an ingredient has
+// none. Each Atwater factor is averaged over the ingredients, weighted by the
+// grams of that macro they bring, so the recipe's specific-factor calories
+// equal the sum of its ingredients'. Ingredients without factors count as 4/9/4.
+function recipeBasePerG(recipe: RecipeDraft): LogItem['_basePerG'] {
+  const weight = Math.max(1, recipeWeight(recipe));
+  const total = { energy: 0, protein: 0, fat: 0, carbs: 0 };
+  const weighted = { protein: 0, fat: 0, carbs: 0 };
+  let hasFactors = false;
+  const micros: Record<string, number> = {};
+  for (const x of recipe.ingredients) {
+    const b = x.base_per_g;
+    const f = b.factors || { protein: 4, fat: 9, carbs: 4 };
+    if (b.factors) hasFactors = true;
+    total.energy += energyKcal(b, 'label') * x.grams;
+    total.protein += safeNum(b.protein) * x.grams;
+    total.fat += safeNum(b.fat) * x.grams;
+    total.carbs += safeNum(b.carbs) * x.grams;
+    weighted.protein += safeNum(b.protein) * x.grams * f.protein;
+    weighted.fat += safeNum(b.fat) * x.grams * f.fat;
+    weighted.carbs += safeNum(b.carbs) * x.grams * f.carbs;
+    for (const [k, v] of Object.entries(b.micros || {})) {
+      micros[k] = (micros[k] || 0) + safeNum(v) * x.grams;
+    }
+  }
+  const factor = (macro: keyof AtwaterFactors, general: number) =>
+    total[macro] > 0 ? weighted[macro] / total[macro] : general;
+  return {
+    energy: total.energy / weight,
+    protein: total.protein / weight,
+    fat: total.fat / weight,
+    carbs: total.carbs / weight,
+    micros: Object.fromEntries(
+      Object.entries(micros).map(([k, v]) => [k, v / weight])
+    ) as Record<string, number>,
+    ...(hasFactors
+      ? { factors: { protein: factor('protein', 4), fat: factor('fat', 9), carbs: factor('carbs', 4) } }
+      : {}),
+  };
+}
+
+// ===================== Log aggregates =====================
+type LogTotals = {
+  mass: number;
+  cal: number;
+  protein: number;
+  fiber: number;
+  FF: number;
+  PF: number;
+  WF: number;
+  EF: number;
+  micros: Record<string, number>;
+};
+// Calories for an amount of food under the chosen energy source. Alcohol
+// counts 7 kcal/g in both Atwater systems; anything missing falls back to 4/9/4.
+function energyKcal(
+  x: { energy?: number; protein?: number; fat?: number; carbs?: number; micros?: Record<string, number> },
+  source: EnergySource,
+  factors?: AtwaterFactors
+): number {
+  const p = safeNum(x.protein),
+    f = safeNum(x.fat),
+    c = safeNum(x.carbs),
+    alcohol = safeNum(x.micros?.alcohol);
+  const general = p * 4 + f * 9 + c * 4 + alcohol * 7;
+  if (source === 'atwater_general') return general;
+  if (source === 'atwater_specific') {
+    return factors
+      ? p * factors.protein + f * factors.fat + c * factors.carbs + alcohol * 7
+      : general;
+  }
+  const label = safeNum(x.energy);
+  return label > 0 ? label : general;
+}
+function itemKcal(x: LogItem, source: EnergySource): number {
+  return energyKcal(x, source, x._basePerG?.factors);
+}
+
+function summarizeLog(items: LogItem[], source: EnergySource): LogTotals {
+  const acc = items.reduce(
+    (a, x) => {
+      const kc = itemKcal(x, source);
+      a.mass += Math.max(0, safeNum(x.serving));
+      a.cal += kc;
+      a.protein += safeNum(x.protein);
+      a.fiber += safeNum(x.micros?.fiber);
+      return a;
+    },
+    { mass: 0, cal: 0, protein: 0, fiber: 0 }
+  );
+  const FF = ff(acc.cal, acc.fiber),
+    PF = pf(acc.cal, acc.protein);
+  return {
+    ...acc,
+    FF,
+    PF,
+    WF: wf(FF, PF),
+    EF: ef(acc.cal, acc.mass),
+    micros: sumMicros(items),
+  };
+}
 
 // ===================== Small UI bits =====================
 function Stat({
@@ -287,7 +736,8 @@ function BadgeHalo({
   compact?: boolean;
 }) {
   const ok = value < threshold;
-  const text = formatFactor(value, label === 'EF' || label.includes('Energy'));
+  // Small thresholds (EF, extra factors on mg/µg nutrients) need a decimal
+  const text = formatFactor(value, label === 'EF' || label.includes('Energy') || threshold < 10);
   const ring = ok
     ? 'ring-emerald-200 border-emerald-300 bg-emerald-100'
     : 'ring-rose-200 border-rose-300 bg-rose-100';
@@ -306,45 +756,1205 @@ function BadgeHalo({
   );
 }
 
+// The four core factors judged against the scoring profile, plus its extra
+// factors for this many calories and nutrients
+function FactorBadges({
+  profile,
+  values,
+  extras,
+  compact = false,
+  long = false,
+}: {
+  profile: ScoringProfile;
+  values: FactorValues;
+  extras: FactorScore[];
+  compact?: boolean;
+  long?: boolean;
+}) {
+  return (
+    <>
+      {CORE_FACTORS.map((f) => (
+        <BadgeHalo
+          key={f.key}
+          label={long ? `${f.key} (${f.label})` : f.key}
+          value={values[f.key]}
+          threshold={profile.thresholds[f.key]}
+          compact={compact}
+        />
+      ))}
+      {extras.map((x, i) => (
+        <BadgeHalo
+          key={`${x.label}-${i}`}
+          label={x.label}
+          value={x.value}
+          threshold={x.threshold}
+          compact={compact}
+        />
+      ))}
+    </>
+  );
+}
+
+// Every registry nutrient present in `micros`, grouped, behind a show/hide toggle.
+// With `intakes`, each row also shows percent of its daily target and nutrients
+// with a target are listed even when none was eaten.
+function NutrientPanel({
+  micros,
+  intakes,
+  label = 'nutrients',
+}: {
+  micros: Record<string, number>;
+  intakes?: Intakes;
+  label?: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const groups = NUTRIENT_GROUPS.map((g) => ({
+    ...g,
+    items: NUTRIENTS.filter(
+      (n) =>
+        n.group === g.key && (safeNum(micros[n.key]) > 0 || intakes?.[n.key]?.target !== undefined)
+    ),
+  })).filter((g) => g.items.length > 0);
+  if (groups.length === 0) return null;
+  return (
+    <div className="mt-2">
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer bg-transparent border-0 p-0"
+        aria-expanded={open}
+      >
+        {open ? `Hide ${label}` : `Show all ${label}`}
+      </button>
+      {open && (
+        <div className="mt-2 grid grid-cols-1 gap-3 rounded-xl border bg-slate-50 p-2 text-[11px] sm:grid-cols-2">
+          {groups.map((g) => (
+            <div key={g.key}>
+              <div className="mb-1 font-medium text-slate-600">{g.label}</div>
+              <dl className="space-y-0.5">
+                {g.items.map((n) => {
+                  const value = safeNum(micros[n.key]);
+                  const pct = intakes ? percentOfIntake(value, intakes[n.key]) : null;
+                  const over = intakes ? isOverLimit(value, intakes[n.key]) : false;
+                  return (
+                    <div key={n.key} className="flex justify-between gap-2">
+                      <dt className="text-slate-500">{n.label}</dt>
+                      <dd className={over ? 'font-medium text-rose-600' : ''}>
+                        {formatNutrient(value, n.unit)} {n.unit}
+                        {pct !== null && (
+                          <span
+                            className={'ml-1 ' + (over ? 'text-rose-600' : 'text-slate-400')}
+                            title={
+                              intakes?.[n.key]?.target !== undefined
+                                ? `Target ${formatNutrient(intakes[n.key].target!, n.unit)} ${n.unit}`
+                                : `Limit ${formatNutrient(intakes![n.key].limit!, n.unit)} ${n.unit}`
+                            }
+                          >
+                            {Math.round(pct)}%
+                          </span>
+                        )}
+                      </dd>
+                    </div>
+                  );
+                })}
+              </dl>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Green while under the day's upper limit, rose once over it (same palette as BadgeHalo)
+function LimitBadge({
+  label,
+  unit,
+  value,
+  limit,
+}: {
+  label: string;
+  unit: NutrientDef['unit'];
+  value: number;
+  limit: number;
+}) {
+  const ok = value <= limit;
+  const ring = ok
+    ? 'ring-emerald-200 border-emerald-300 bg-emerald-100'
+    : 'ring-rose-200 border-rose-300 bg-rose-100';
+  return (
+    <div className={'rounded-xl border p-1.5 text-center ring-2 ' + ring}>
+      <div className="text-[10px] font-semibold">{label}</div>
+      <div className="text-sm font-medium">
+        {formatNutrient(value, unit)} / {formatNutrient(limit, unit)}
+        {unit}
+      </div>
+    </div>
+  );
+}
+
+// Picks the active scoring profile and edits its thresholds and extra factors
+function ScoringSettings({
+  profiles,
+  activeId,
+  onChange,
+  onSelect,
+}: {
+  profiles: ScoringProfile[];
+  activeId: string;
+  onChange: (profiles: ScoringProfile[]) => void;
+  onSelect: (id: string) => void;
+}) {
+  const profile = findProfile(profiles, activeId);
+  const update = (patch: Partial<ScoringProfile>) =>
+    onChange(profiles.map((p) => (p.id === profile.id ? { ...p, ...patch } : p)));
+  const setThreshold = (key: CoreFactor, value: string) =>
+    update({ thresholds: { ...profile.thresholds, [key]: safeNum(value, 0) } });
+  const setExtra = (index: number, patch: Partial<ScoringProfile['extras'][number]>) =>
+    update({ extras: profile.extras.map((x, i) => (i === index ? { ...x, ...patch } : x)) });
+
+  function addProfile() {
+    const id = crypto.randomUUID();
+    onChange([...profiles, { ...profile, id, name: `${profile.name} copy` }]);
+    onSelect(id);
+  }
+  function removeProfile() {
+    const rest = profiles.filter((p) => p.id !== profile.id);
+    onChange(rest);
+    onSelect(rest[0].id);
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex items-center gap-2">
+        <select
+          aria-label="Scoring profile"
+          className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+          value={profile.id}
+          onChange={(e) => onSelect(e.target.value)}
+        >
+          {profiles.map((p) => (
+            <option key={p.id} value={p.id}>
+              {p.name}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={addProfile}
+          className="shrink-0 rounded-lg border px-2 py-1 text-xs hover:bg-slate-50"
+        >
+          Duplicate
+        </button>
+        <button
+          onClick={removeProfile}
+          disabled={profiles.length <= 1}
+          className="shrink-0 rounded-lg border px-2 py-1 text-xs hover:bg-slate-50 disabled:opacity-50"
+        >
+          Delete
+        </button>
+      </div>
+      <input
+        aria-label="Profile name"
+        className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+        value={profile.name}
+        onChange={(e) => update({ name: e.target.value })}
+      />
+      <div className="grid grid-cols-4 gap-2">
+        {CORE_FACTORS.map((f) => (
+          <label key={f.key} className="text-xs text-slate-500" title={f.label}>
+            {f.key} under
+            <input
+              type="number"
+              min="0"
+              step="any"
+              className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+              value={profile.thresholds[f.key]}
+              onChange={(e) => setThreshold(f.key, e.target.value)}
+            />
+          </label>
+        ))}
+      </div>
+      {profile.extras.map((x, i) => (
+        <div key={i} className="flex items-end gap-2">
+          <label className="flex-1 text-xs text-slate-500">
+            Label
+            <input
+              className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+              value={x.label}
+              onChange={(e) => setExtra(i, { label: e.target.value })}
+            />
+          </label>
+          <label className="flex-1 text-xs text-slate-500">
+            kcal per
+            <select
+              className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+              value={x.nutrient}
+              onChange={(e) => setExtra(i, { nutrient: e.target.value })}
+            >
+              {NUTRIENTS.map((n) => (
+                <option key={n.key} value={n.key}>
+                  {n.label} ({n.unit})
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="w-20 text-xs text-slate-500">
+            Under
+            <input
+              type="number"
+              min="0"
+              step="any"
+              className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+              value={x.threshold}
+              onChange={(e) => setExtra(i, { threshold: safeNum(e.target.value, 0) })}
+            />
+          </label>
+          <button
+            onClick={() => update({ extras: profile.extras.filter((_, j) => j !== i) })}
+            className="rounded-lg border px-2 py-2 text-xs hover:bg-slate-50"
+            aria-label={`Remove ${x.label}`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        onClick={() =>
+          update({
+            extras: [
+              ...profile.extras,
+              { label: 'KF', nutrient: 'potassium', threshold: 1 },
+            ],
+          })
+        }
+        className="rounded-lg border px-2 py-1 text-xs hover:bg-slate-50"
+      >
+        Add factor
+      </button>
+      <p className="text-xs text-slate-500">
+        A factor is OK below its threshold. Extra factors divide calories by the
+        chosen nutrient, like FF does with fiber.
+      </p>
+    </div>
+  );
+}
+
+// ===================== Day planner =====================
+// How many distinct recently logged foods the planner offers, from how many days back
+const RECENT_FOODS = 20;
+const RECENT_DAYS = 30;
+type PlanCandidate = { key: string; source: string; item: LogItem };
+
+// One key per food, whichever list it came from
+function foodKey(item: LogItem): string {
+  return item.fdcId
+    ? `fdc-${item.fdcId}`
+    : item.customFoodId
+      ? `custom-${item.customFoodId}`
+      : `name-${item.name.toLowerCase()}`;
+}
+// Candidates from several labelled lists, keeping the first copy of each food
+function candidatePool(groups: Array<[string, LogItem[]]>): PlanCandidate[] {
+  const pool = new Map<string, PlanCandidate>();
+  for (const [source, items] of groups) {
+    for (const item of items) {
+      const key = foodKey(item);
+      if (!pool.has(key)) pool.set(key, { key, source, item });
+    }
+  }
+  return [...pool.values()];
+}
+type PlanLimits = { use: boolean; min: string; max: string };
+const PLAN_DEFAULT_MAX = 300;
+
+// Picks amounts of the candidate foods that reach `targetKcal` (what is left
+// of the day's target) with the lowest WF (planner.ts), then hands the plan to
+// `onAdd` as log items. Only the MAX_PLAN_FOODS candidates with the lowest WF
+// start ticked, and no more than that can be ticked at once.
+function MealPlanner({
+  candidates,
+  targetKcal,
+  energySource,
+  profile,
+  display,
+  defaultMeal,
+  onAdd,
+}: {
+  candidates: PlanCandidate[];
+  targetKcal: number;
+  energySource: EnergySource;
+  profile: ScoringProfile;
+  display: DisplayUnits;
+  defaultMeal: Meal;
+  onAdd: (items: LogItem[]) => void;
+}) {
+  const [limits, setLimits] = useState<Record<string, PlanLimits>>({});
+  const [plan, setPlan] = useState<Plan | null>(null);
+  const [meal, setMeal] = useState<Meal>(defaultMeal);
+  const [planning, setPlanning] = useState(false);
+  // Bumped whenever the limits change, so a plan that finishes late is dropped
+  const runRef = useRef(0);
+  const ticked = useMemo(() => {
+    const perGramWf = (c: PlanCandidate) => {
+      const b = c.item._basePerG;
+      const kcal = energyKcal(b, energySource, b.factors);
+      return wf(ff(kcal, safeNum(b.micros?.fiber)), pf(kcal, safeNum(b.protein)));
+    };
+    return new Set(
+      [...candidates]
+        .sort((a, b) => perGramWf(a) - perGramWf(b))
+        .slice(0, MAX_PLAN_FOODS)
+        .map((c) => c.key)
+    );
+  }, [candidates, energySource]);
+  // Limits are typed in the display mass unit
+  const defaultMax = String(round(massValue(PLAN_DEFAULT_MAX, display.units), 0));
+  const limitsFor = (key: string): PlanLimits =>
+    limits[key] || { use: ticked.has(key), min: '0', max: defaultMax };
+  const setLimit = (key: string, patch: Partial<PlanLimits>) => {
+    setLimits((prev) => ({ ...prev, [key]: { ...limitsFor(key), ...patch } }));
+    runRef.current++;
+    setPlanning(false);
+    setPlan(null);
+  };
+  const chosen = candidates.filter((c) => limitsFor(c.key).use);
+  const full = chosen.length >= MAX_PLAN_FOODS;
+
+  async function runPlan() {
+    const foods: PlanFood[] = chosen.map((c) => {
+      const b = c.item._basePerG;
+      const l = limitsFor(c.key);
+      const min = massToGrams(Math.max(0, safeNum(l.min, 0)), display.units);
+      const max = l.max.trim() === '' ? PLAN_DEFAULT_MAX : massToGrams(safeNum(l.max, 0), display.units);
+      return {
+        id: c.key,
+        kcal: energyKcal(b, energySource, b.factors),
+        protein: safeNum(b.protein),
+        fiber: safeNum(b.micros?.fiber),
+        min,
+        max: Math.max(min, max),
+      };
+    });
+    const run = ++runRef.current;
+    setPlanning(true);
+    const next = await planDay(foods, targetKcal);
+    if (run !== runRef.current) return;
+    setPlanning(false);
+    setPlan(next);
+  }
+
+  function addPlan() {
+    if (!plan) return;
+    onAdd(
+      chosen
+        .filter((c) => (plan.grams[c.key] || 0) > 0)
+        .map((c) => ({
+          ...itemAtGrams(c.item, plan.grams[c.key]),
+          id: crypto.randomUUID(),
+          meal,
+        }))
+    );
+    setPlan(null);
+  }
+
+  if (candidates.length === 0) {
+    return (
+      <p className="text-sm text-slate-500">
+        Favorite, create or log some foods first; the planner picks amounts from those.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="max-h-72 space-y-1 overflow-y-auto">
+        {candidates.map((c) => {
+          const l = limitsFor(c.key);
+          const grams = plan?.grams[c.key];
+          return (
+            <div key={c.key} className="flex items-center gap-2 rounded-lg border px-2 py-1">
+              <input
+                type="checkbox"
+                checked={l.use}
+                onChange={(e) => setLimit(c.key, { use: e.target.checked })}
+                disabled={!l.use && full}
+                aria-label={`Use ${c.item.name}`}
+              />
+              <div className="min-w-0 flex-1">
+                <div className="overflow-hidden text-ellipsis whitespace-nowrap capitalize">
+                  {c.item.name}
+                </div>
+                <div className="text-[10px] uppercase tracking-wide text-slate-500">{c.source}</div>
+              </div>
+              <input
+                type="number"
+                min="0"
+                className="w-16 rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-2 py-1 text-sm shadow-sm"
+                value={l.min}
+                onChange={(e) => setLimit(c.key, { min: e.target.value })}
+                aria-label={`Minimum ${massUnit(display.units)} of ${c.item.name}`}
+                disabled={!l.use}
+              />
+              <span className="text-xs text-slate-500">–</span>
+              <input
+                type="number"
+                min="0"
+                className="w-16 rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-2 py-1 text-sm shadow-sm"
+                value={l.max}
+                onChange={(e) => setLimit(c.key, { max: e.target.value })}
+                aria-label={`Maximum ${massUnit(display.units)} of ${c.item.name}`}
+                disabled={!l.use}
+              />
+              <span className="w-14 text-right font-medium">
+                {grams !== undefined && l.use ? formatMass(grams, display.units) : ''}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+      {full && (
+        <p className="text-xs text-slate-500">
+          Plans use up to {MAX_PLAN_FOODS} foods; untick one to add another.
+        </p>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <button
+          onClick={runPlan}
+          disabled={chosen.length === 0 || planning || targetKcal <= 0}
+          className="rounded-xl bg-slate-900 px-4 py-2 text-white hover:bg-slate-800 disabled:opacity-50"
+        >
+          {planning
+            ? 'Planning…'
+            : targetKcal > 0
+              ? `Plan the remaining ${formatEnergy(targetKcal, display.energy)}`
+              : 'Target reached for this day'}
+        </button>
+        {plan && (
+          <>
+            <select
+              aria-label="Meal for planned foods"
+              className="rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-2 py-1 text-sm shadow-sm"
+              value={meal}
+              onChange={(e) => setMeal(e.target.value as Meal)}
+            >
+              {MEALS.map((m) => (
+                <option key={m.key} value={m.key}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={addPlan}
+              className="rounded-xl border px-4 py-2 hover:bg-slate-50"
+            >
+              Add to log
+            </button>
+          </>
+        )}
+      </div>
+      {plan && (
+        <div className="grid grid-cols-4 gap-2 text-[11px]">
+          <Stat
+            label="Calories"
+            value={`${round(energyValue(plan.kcal, display.energy), 0)}`}
+            tooltip={`(${energyLabel(display.energy)})`}
+          />
+          <Stat label="Fiber" value={`${round(plan.fiber, 1)}`} tooltip="(g)" />
+          <Stat label="Protein" value={`${round(plan.protein, 1)}`} tooltip="(g)" />
+          <BadgeHalo label="WF" value={plan.wf} threshold={profile.thresholds.WF} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Source of ingredients taken from the day's log
+const RECIPE_LOGGED = 'Logged';
+
+// Builds a recipe from the day's log, favorites, custom foods and search
+// results: tick ingredients (logged foods start ticked), adjust their grams,
+// optionally enter the cooked weight, and save it as a custom food
+function RecipeBuilder({
+  candidates,
+  energySource,
+  display,
+  onSave,
+  onClose,
+}: {
+  candidates: PlanCandidate[];
+  energySource: EnergySource;
+  display: DisplayUnits;
+  onSave: (recipe: RecipeDraft) => Promise<boolean>;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState('');
+  const [brand, setBrand] = useState('');
+  const [yieldText, setYieldText] = useState('');
+  // Amounts are typed in the display mass unit and kept in grams in the draft
+  const mass = massUnit(display.units);
+  const [amounts, setAmounts] = useState<Record<string, string>>({});
+  const amountOf = (c: PlanCandidate) =>
+    amounts[c.key] ?? String(round(massValue(c.item.serving, display.units), 1));
+  const gramsOf = (text: string | undefined) => massToGrams(safeNum(text, 0), display.units);
+  const [picked, setPicked] = useState<Set<string>>(
+    () => new Set(candidates.filter((c) => c.source === RECIPE_LOGGED).map((c) => c.key))
+  );
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const recipe: RecipeDraft = {
+    name: name.trim(),
+    brand: brand.trim(),
+    ingredients: candidates
+      .filter((c) => picked.has(c.key) && gramsOf(amountOf(c)) > 0)
+      .map((c) => ({
+        name: c.item.name,
+        grams: gramsOf(amountOf(c)),
+        fdc_id: c.item.fdcId ?? null,
+        custom_food_id: c.item.customFoodId ?? null,
+        base_per_g: c.item._basePerG,
+      })),
+    yieldGrams: gramsOf(yieldText) > 0 ? gramsOf(yieldText) : null,
+  };
+  const weight = recipeWeight(recipe);
+  // Per 100 g, labelled in the display unit like the search results (3.5 oz in US)
+  const previewGrams = 100;
+  const preview = itemAtGrams(
+    { ...candidates[0].item, _basePerG: recipeBasePerG(recipe) },
+    previewGrams
+  );
+
+  async function save() {
+    if (!recipe.name) return setError('Give the recipe a name.');
+    if (recipe.ingredients.length === 0) return setError('Pick at least one ingredient.');
+    setError('');
+    setSaving(true);
+    const ok = await onSave(recipe);
+    setSaving(false);
+    if (ok) onClose();
+    else setError('Could not save the recipe.');
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-md rounded-2xl border bg-white p-6 shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h2 className="mb-4 text-xl font-semibold">New Recipe</h2>
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label htmlFor="recipeName" className="mb-1 block text-xs uppercase tracking-wide text-slate-500">
+                Name *
+              </label>
+              <input
+                id="recipeName"
+                className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Lentil soup"
+              />
+            </div>
+            <div>
+              <label htmlFor="recipeBrand" className="mb-1 block text-xs uppercase tracking-wide text-slate-500">
+                Brand
+              </label>
+              <input
+                id="recipeBrand"
+                className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+                value={brand}
+                onChange={(e) => setBrand(e.target.value)}
+                placeholder="e.g., Homemade"
+              />
+            </div>
+          </div>
+          <div className="max-h-60 space-y-1 overflow-y-auto">
+            {candidates.map((c) => (
+              <label key={c.key} className="flex items-center gap-2 rounded-lg border px-2 py-1 text-sm">
+                <input
+                  type="checkbox"
+                  checked={picked.has(c.key)}
+                  onChange={(e) =>
+                    setPicked((prev) => {
+                      const next = new Set(prev);
+                      if (e.target.checked) next.add(c.key);
+                      else next.delete(c.key);
+                      return next;
+                    })
+                  }
+                />
+                <span className="min-w-0 flex-1">
+                  <span className="block overflow-hidden text-ellipsis whitespace-nowrap capitalize">
+                    {c.item.name}
+                  </span>
+                  <span className="block text-[10px] uppercase tracking-wide text-slate-500">
+                    {c.source}
+                  </span>
+                </span>
+                <input
+                  type="number"
+                  min="0"
+                  aria-label={`Amount of ${c.item.name} (${mass})`}
+                  className="w-20 rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-2 py-1 text-sm shadow-sm"
+                  value={amountOf(c)}
+                  onChange={(e) => setAmounts((prev) => ({ ...prev, [c.key]: e.target.value }))}
+                  disabled={!picked.has(c.key)}
+                />
+                <span className="text-xs text-slate-500">{mass}</span>
+              </label>
+            ))}
+          </div>
+          <div>
+            <label htmlFor="recipeYield" className="mb-1 block text-xs uppercase tracking-wide text-slate-500">
+              Cooked weight ({mass})
+            </label>
+            <input
+              id="recipeYield"
+              type="number"
+              min="0"
+              className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+              value={yieldText}
+              onChange={(e) => setYieldText(e.target.value)}
+              placeholder={`${round(
+                massValue(recipe.ingredients.reduce((a, x) => a + x.grams, 0), display.units),
+                0
+              )} (raw weight)`}
+            />
+          </div>
+          <p className="text-xs text-slate-600">
+            Makes {formatMass(weight, display.units)} · per {formatMass(previewGrams, display.units)}:{' '}
+            {formatEnergy(energyKcal(preview, energySource), display.energy)} • P{' '}
+            {round(preview.protein, 1)} • Fiber {round(safeNum(preview.micros.fiber), 1)}
+          </p>
+          {error && <p className="text-xs text-rose-600">{error}</p>}
+        </div>
+        <div className="mt-6 flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="rounded-xl bg-slate-200 px-4 py-2 text-sm text-slate-900 hover:bg-slate-300 focus:outline-none focus:ring-0"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={save}
+            disabled={saving}
+            className="rounded-xl bg-slate-900 px-4 py-2 text-sm text-white hover:bg-slate-800 focus:outline-none focus:ring-0 disabled:opacity-50"
+          >
+            Save recipe
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Ranked additions and swaps from `candidates` that bring the day's WF under
+// the profile threshold without passing the calorie target (suggestions.ts)
+function FixMyDay({
+  candidates,
+  log,
+  totals,
+  targetKcal,
+  energySource,
+  profile,
+  display,
+  onAdd,
+  onSwap,
+}: {
+  candidates: PlanCandidate[];
+  log: LogItem[];
+  totals: LogTotals;
+  targetKcal: number;
+  energySource: EnergySource;
+  profile: ScoringProfile;
+  display: DisplayUnits;
+  onAdd: (item: LogItem) => void;
+  onSwap: (out: LogItem, item: LogItem) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  const suggestions = useMemo(() => {
+    if (!open) return [];
+    const foods: SuggestionFood[] = candidates.map((c) => {
+      const b = c.item._basePerG;
+      return {
+        id: c.key,
+        kcal: energyKcal(b, energySource, b.factors),
+        protein: safeNum(b.protein),
+        fiber: safeNum(b.micros?.fiber),
+      };
+    });
+    const logged: LoggedFood[] = log.map((x) => ({
+      id: x.id,
+      foodId: foodKey(x),
+      kcal: itemKcal(x, energySource),
+      protein: safeNum(x.protein),
+      fiber: safeNum(x.micros?.fiber),
+      mass: Math.max(0, safeNum(x.serving)),
+    }));
+    return suggestFixes(
+      { kcal: totals.cal, protein: totals.protein, fiber: totals.fiber, mass: totals.mass },
+      logged,
+      foods,
+      { target: targetKcal, wfThreshold: profile.thresholds.WF }
+    );
+  }, [open, candidates, log, totals, targetKcal, energySource, profile]);
+
+  return (
+    <div className="mt-2 rounded-xl border p-2 text-sm">
+      <button
+        onClick={() => setOpen((v) => !v)}
+        className="text-xs font-medium text-blue-600 hover:text-blue-700"
+      >
+        {open ? 'Hide suggestions' : 'Fix my day'}
+      </button>
+      {open && suggestions.length === 0 && (
+        <p className="mt-2 text-xs text-slate-500">
+          No favorite, custom or searched food lowers WF within{' '}
+          {formatEnergy(targetKcal, display.energy)}.
+        </p>
+      )}
+      {open && suggestions.length > 0 && !suggestions[0].fixes && (
+        <p className="mt-2 text-xs text-slate-500">
+          Nothing gets WF under {profile.thresholds.WF} yet; these get closest.
+        </p>
+      )}
+      {open && (
+        <div className="mt-2 space-y-2">
+          {suggestions.map((s) => {
+            const food = candidates.find((c) => c.key === s.foodId)!;
+            const out = s.replaces ? log.find((x) => x.id === s.replaces) : undefined;
+            const item = { ...itemAtGrams(food.item, s.grams), id: crypto.randomUUID() };
+            return (
+              <div key={`${s.foodId}-${s.replaces ?? ''}`} className="rounded-lg border p-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="min-w-0 text-xs">
+                    <span className="font-medium">
+                      {out ? `Swap ${out.name} for ` : 'Add '}
+                      {formatMass(s.grams, display.units)} {food.item.name}
+                    </span>
+                    <span className="text-slate-500">
+                      {' '}
+                      → {formatEnergy(s.after.kcal, display.energy)} (
+                      {s.after.kcal >= totals.cal ? '+' : '−'}
+                      {round(energyValue(Math.abs(s.after.kcal - totals.cal), display.energy), 0)})
+                    </span>
+                  </div>
+                  <button
+                    onClick={() => (out ? onSwap(out, item) : onAdd(item))}
+                    className="shrink-0 rounded-lg border px-2 py-1 text-xs hover:bg-slate-50"
+                  >
+                    Apply
+                  </button>
+                </div>
+                <div className="mt-1 grid grid-cols-4 gap-1 text-[11px]">
+                  <FactorBadges profile={profile} values={s.after} extras={[]} compact />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function MealTotals({
+  totals,
+  profile,
+  display,
+}: {
+  totals: LogTotals;
+  profile: ScoringProfile;
+  display: DisplayUnits;
+}) {
+  const extras = extraScores(profile, totals.cal, totals.micros);
+  return (
+    <>
+      <div className="grid grid-cols-4 gap-2 text-[11px]">
+        <Stat
+          label="Amount"
+          value={`${round(massValue(totals.mass, display.units), 1)}`}
+          tooltip={`(${massUnit(display.units)})`}
+        />
+        <Stat
+          label="Calories"
+          value={`${round(energyValue(totals.cal, display.energy), 0)}`}
+          tooltip={`(${energyLabel(display.energy)})`}
+        />
+        <Stat label="Fiber" value={`${round(totals.fiber, 1)}`} tooltip="(g)" />
+        <Stat label="Protein" value={`${round(totals.protein, 1)}`} tooltip="(g)" />
+      </div>
+      <div
+        className={
+          'mt-2 grid grid-cols-4 gap-2 text-[11px] rounded-xl p-2 ' +
+          (isScoreOk(profile, totals, extras) ? 'bg-emerald-100' : 'bg-rose-100')
+        }
+      >
+        <FactorBadges profile={profile} values={totals} extras={extras} compact />
+      </div>
+    </>
+  );
+}
+
+function SyncStatus() {
+  const sync = useSyncExternalStore(subscribeSyncState, getSyncState);
+  if (backend !== 'supabase') {
+    return (
+      <span
+        className="inline-flex items-center gap-1.5 rounded-full border bg-white px-2.5 py-1 text-xs text-slate-600"
+        title={
+          backend === 'local'
+            ? 'Data is saved in this browser only'
+            : 'Data is not saved; it is lost when the page reloads'
+        }
+      >
+        <span className="inline-block h-2 w-2 rounded-full bg-slate-400" />
+        {backend === 'local' ? 'Local only' : 'Not saved'}
+      </span>
+    );
+  }
+  const pending = sync.pending > 0 ? ` · ${sync.pending} pending` : '';
+  const [dot, text] = sync.syncing
+    ? ['bg-blue-500', `Syncing${pending}`]
+    : sync.online
+      ? sync.pending > 0
+        ? ['bg-amber-500', `Online${pending}`]
+        : ['bg-emerald-500', 'Synced']
+      : ['bg-amber-500', `Offline${pending}`];
+  return (
+    <button
+      onClick={() => replayQueue()}
+      className="inline-flex items-center gap-1.5 rounded-full border bg-white px-2.5 py-1 text-xs text-slate-600"
+      title={
+        sync.lastError ||
+        (sync.online
+          ? 'Changes are saved to the server'
+          : 'Changes are saved on this device and will sync when you are back online')
+      }
+    >
+      <span className={'inline-block h-2 w-2 rounded-full ' + dot} />
+      {text}
+      {sync.lastError ? <span className="text-rose-600">!</span> : null}
+    </button>
+  );
+}
+
+// ===================== Body measurements =====================
+type BodyMetricDraft = {
+  date: string;
+  weightKg: number;
+  waistCm: number | null;
+  bodyFatPct: number | null;
+};
+const BODY_METRIC_CHARTS: ReadonlyArray<{ key: BodyMetricKey; label: string }> = [
+  { key: 'weightKg', label: 'Weight' },
+  { key: 'waistCm', label: 'Waist' },
+  { key: 'bodyFatPct', label: 'Body fat' },
+];
+
+async function fetchBodyMetrics(userId: string): Promise<BodyMetric[]> {
+  const { data, error } = await selectRows(
+    'body_metrics',
+    { user_id: userId },
+    { column: 'measured_on', ascending: true }
+  );
+  if (error) throw error;
+  return (data || []).map(parseBodyMetric).filter((e): e is BodyMetric => e !== null);
+}
+
+// Raw entries as dots, the moving average as a line
+function TrendChart({ points, unit }: { points: TrendPoint[]; unit: string }) {
+  const W = 320,
+    H = 140,
+    PAD = 24;
+  if (points.length === 0) {
+    return <p className="text-xs text-slate-500">No entries yet.</p>;
+  }
+  const first = dayNumber(points[0].date),
+    last = dayNumber(points[points.length - 1].date);
+  const values = points.flatMap((p) => [p.value, p.average]);
+  const lo = Math.min(...values),
+    hi = Math.max(...values);
+  const pad = hi - lo > 0 ? (hi - lo) * 0.1 : Math.max(1, hi * 0.02);
+  const yMin = lo - pad,
+    yMax = hi + pad;
+  const x = (date: string) =>
+    last > first ? PAD + ((dayNumber(date) - first) / (last - first)) * (W - 2 * PAD) : W / 2;
+  const y = (v: number) => H - PAD - ((v - yMin) / (yMax - yMin)) * (H - 2 * PAD);
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H}`}
+      className="w-full"
+      role="img"
+      aria-label={`Trend with ${MOVING_AVERAGE_DAYS}-day moving average`}
+    >
+      <line x1={PAD} y1={H - PAD} x2={W - PAD} y2={H - PAD} className="stroke-slate-200" />
+      <text x={2} y={PAD} className="fill-slate-500 text-[9px]">
+        {round(yMax, 1)} {unit}
+      </text>
+      <text x={2} y={H - PAD} className="fill-slate-500 text-[9px]">
+        {round(yMin, 1)}
+      </text>
+      <text x={PAD} y={H - 6} className="fill-slate-500 text-[9px]">
+        {shortDateKey(points[0].date)}
+      </text>
+      {points.length > 1 && (
+        <text x={W - PAD} y={H - 6} textAnchor="end" className="fill-slate-500 text-[9px]">
+          {shortDateKey(points[points.length - 1].date)}
+        </text>
+      )}
+      <polyline
+        fill="none"
+        strokeWidth={2}
+        className="stroke-blue-600"
+        points={points.map((p) => `${x(p.date)},${y(p.average)}`).join(' ')}
+      />
+      {points.map((p) => (
+        <circle key={p.date} cx={x(p.date)} cy={y(p.value)} r={2.5} className="fill-slate-400">
+          <title>
+            {formatDateKey(p.date)}: {round(p.value, 1)} {unit}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
+
+// Logs dated weight (plus optional waist and body fat) and charts the trend.
+// Values are typed in the display units and handed to `onSave` in kg/cm/%.
+function BodyMetricsPanel({
+  entries,
+  units,
+  validateWeight,
+  onSave,
+  onRemove,
+}: {
+  entries: BodyMetric[];
+  units: Units;
+  validateWeight: (value: number) => string;
+  onSave: (entry: BodyMetricDraft) => Promise<boolean>;
+  onRemove: (id: string) => void;
+}) {
+  const [date, setDate] = useState(() => toDateKey(new Date()));
+  const [weight, setWeight] = useState('');
+  const [waist, setWaist] = useState('');
+  const [bodyFat, setBodyFat] = useState('');
+  const [chart, setChart] = useState<BodyMetricKey>('weightKg');
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const chartUnit =
+    chart === 'weightKg' ? weightUnit(units) : chart === 'waistCm' ? lengthUnit(units) : '%';
+  const toDisplay = (v: number) =>
+    chart === 'weightKg' ? weightValue(v, units) : chart === 'waistCm' ? lengthValue(v, units) : v;
+  const points = trend(entries, chart).map((p) => ({
+    ...p,
+    value: toDisplay(p.value),
+    average: toDisplay(p.average),
+  }));
+  const recent = sortMetrics(entries).reverse().slice(0, 5);
+
+  async function save() {
+    const w = parseFloat(weight);
+    const weightError = validateWeight(Number.isFinite(w) ? w : 0);
+    if (weightError) return setError(weightError);
+    const waistValue = waist.trim() === '' ? null : parseFloat(waist);
+    if (waistValue !== null && !(waistValue > 0)) return setError('Waist must be greater than 0');
+    const fat = bodyFat.trim() === '' ? null : parseFloat(bodyFat);
+    if (fat !== null && !(fat > 0 && fat < 100)) return setError('Body fat must be between 0 and 100%');
+    if (!date) return setError('Pick a date');
+    setError('');
+    setSaving(true);
+    const ok = await onSave({
+      date,
+      weightKg: weightToKg(w, units),
+      waistCm: waistValue === null ? null : lengthToCm(waistValue, units),
+      bodyFatPct: fat,
+    });
+    setSaving(false);
+    if (!ok) return setError('Could not save the entry.');
+    setWeight('');
+    setWaist('');
+    setBodyFat('');
+  }
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label htmlFor="metricDate" className="mb-1 block text-xs uppercase tracking-wide text-slate-500">
+            Date
+          </label>
+          <input
+            id="metricDate"
+            type="date"
+            value={date}
+            max={toDateKey(new Date())}
+            onChange={(e) => setDate(e.target.value)}
+            className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="metricWeight" className="mb-1 block text-xs uppercase tracking-wide text-slate-500">
+            Weight – {weightUnit(units)}
+          </label>
+          <input
+            id="metricWeight"
+            type="number"
+            min="0"
+            value={weight}
+            onChange={(e) => setWeight(e.target.value)}
+            className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+            placeholder="0"
+          />
+        </div>
+        <div>
+          <label htmlFor="metricWaist" className="mb-1 block text-xs uppercase tracking-wide text-slate-500">
+            Waist – {lengthUnit(units)}
+          </label>
+          <input
+            id="metricWaist"
+            type="number"
+            min="0"
+            value={waist}
+            onChange={(e) => setWaist(e.target.value)}
+            className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+            placeholder="Optional"
+          />
+        </div>
+        <div>
+          <label htmlFor="metricBodyFat" className="mb-1 block text-xs uppercase tracking-wide text-slate-500">
+            Body fat – %
+          </label>
+          <input
+            id="metricBodyFat"
+            type="number"
+            min="0"
+            max="100"
+            value={bodyFat}
+            onChange={(e) => setBodyFat(e.target.value)}
+            className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+            placeholder="Optional"
+          />
+        </div>
+      </div>
+      {error && <p className="text-xs text-rose-600">{error}</p>}
+      <button
+        onClick={save}
+        disabled={saving}
+        className="rounded-xl bg-slate-900 px-4 py-2 text-white hover:bg-slate-800 disabled:opacity-50"
+      >
+        Save entry
+      </button>
+      <p className="text-xs text-slate-500">
+        One entry per day; saving a date again replaces it. The latest weight fills in the
+        weight above.
+      </p>
+
+      <div className="flex items-center justify-between">
+        <div className="text-[12px] uppercase tracking-wide text-slate-500">Trend</div>
+        <select
+          aria-label="Measurement to chart"
+          value={chart}
+          onChange={(e) => setChart(e.target.value as BodyMetricKey)}
+          className="rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-2 py-1 text-sm shadow-sm"
+        >
+          {BODY_METRIC_CHARTS.map((c) => (
+            <option key={c.key} value={c.key}>
+              {c.label}
+            </option>
+          ))}
+        </select>
+      </div>
+      <TrendChart points={points} unit={chartUnit} />
+      {points.length > 0 && (
+        <p className="text-xs text-slate-500">
+          Dots are entries; the line is the {MOVING_AVERAGE_DAYS}-day moving average.
+        </p>
+      )}
+
+      {recent.length > 0 && (
+        <div className="space-y-1">
+          {recent.map((e) => (
+            <div key={e.id} className="flex items-center justify-between gap-2 rounded-lg border px-2 py-1 text-xs">
+              <span>{formatDateKey(e.date)}</span>
+              <span className="text-slate-600">
+                {round(weightValue(e.weightKg, units), 1)} {weightUnit(units)}
+                {e.waistCm !== null && ` · ${round(lengthValue(e.waistCm, units), 1)} ${lengthUnit(units)}`}
+                {e.bodyFatPct !== null && ` · ${round(e.bodyFatPct, 1)}%`}
+              </span>
+              <button
+                onClick={() => onRemove(e.id)}
+                className="text-rose-600 hover:text-rose-700"
+                aria-label={`Remove entry for ${formatDateKey(e.date)}`}
+              >
+                Remove
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 // ===================== Food card =====================
+// Whole grams as before; other units need a decimal or two
+function quantityText(grams: number, unit: ServingUnit) {
+  return String(round(Math.max(0, fromGrams(grams, unit)), unit.key === 'g' ? 0 : 2));
+}
+
 function FoodCard({
   item,
-  setLog,
+  userId,
+  onUpdate,
+  onRemove,
   setFavorites,
   favoriteFdcIds,
   setFavoriteFdcIds,
   favoriteCustomFoodIds,
   setFavoriteCustomFoodIds,
   setFavoriteFoodCache,
+  energySource,
+  profile,
+  display,
 }: {
   item: LogItem;
-  setLog: React.Dispatch<React.SetStateAction<LogItem[]>>;
+  userId: string;
+  onUpdate: (id: string, patch: Partial<LogItem>) => void;
+  onRemove: (id: string) => void;
   setFavorites: React.Dispatch<React.SetStateAction<Set<string>>>;
   favoriteFdcIds: Set<number>;
   setFavoriteFdcIds: React.Dispatch<React.SetStateAction<Set<number>>>;
   favoriteCustomFoodIds: Set<string>;
   setFavoriteCustomFoodIds: React.Dispatch<React.SetStateAction<Set<string>>>;
   setFavoriteFoodCache: React.Dispatch<React.SetStateAction<Map<number, any>>>;
+  energySource: EnergySource;
+  profile: ScoringProfile;
+  display: DisplayUnits;
 }) {
-  const kc =
-    safeNum(item.protein) * 4 + safeNum(item.fat) * 9 + safeNum(item.carbs) * 4;
+  const kc = itemKcal(item, energySource);
   const fiber = safeNum(item.micros?.fiber);
   const VFF = ff(kc, fiber),
     VPF = pf(kc, safeNum(item.protein)),
     VWF = wf(VFF, VPF),
     VEF = ef(kc, safeNum(item.serving));
-  const ok = VWF < 80;
+  const extras = extraScores(profile, kc, item.micros);
+  const ok = isScoreOk(profile, { FF: VFF, PF: VPF, WF: VWF, EF: VEF }, extras);
 
   const NEUTRAL = 'bg-white border-slate-200'; // first row background stay neutral
 
   // Local edit buffer so typing isn't overridden by coercion to 0
-  const [amt, setAmt] = React.useState<string>(
-    String(Math.max(0, item.serving))
-  );
+  const unit = displayUnit(display.units, item.unit);
+  const units = unitOptions(display.units, item.unit?.portions);
+  const [amt, setAmt] = React.useState<string>(quantityText(item.serving, unit));
   const [amtError, setAmtError] = React.useState<string>('');
   React.useEffect(() => {
-    setAmt(String(Math.max(0, safeNum(item.serving))));
-  }, [item.serving]);
+    setAmt(quantityText(safeNum(item.serving), unit));
+  }, [item.serving, unit]);
 
   const amtId = `amt-${item.id}`;
 
@@ -358,13 +1968,7 @@ function FoodCard({
     }
   };
 
-  const SELECTED_MICROS: Array<{ key: string; label: string; unit?: string }> =
-    [
-      { key: 'sugar', label: 'Sugar', unit: 'g' },
-      { key: 'satfat', label: 'Sat Fat', unit: 'g' },
-      { key: 'sodium', label: 'Sodium', unit: 'mg' },
-      { key: 'cholesterol', label: 'Cholesterol', unit: 'mg' },
-    ];
+  const SELECTED_MICROS = NUTRIENTS.filter((n) => n.summary);
 
   const handleAmountChange = (gramsRaw: number) => {
     const grams = Math.max(0, Number.isFinite(gramsRaw) ? gramsRaw : 0);
@@ -382,43 +1986,45 @@ function FoodCard({
       ) as Record<string, number>,
     };
     const b = item._basePerG || fallbackBase;
-    setLog((prev) =>
-      prev.map((i) => {
-        if (i.id !== item.id) return i;
-        const g = Math.max(0, grams);
-        return {
-          ...ensureBasePerG(i),
-          serving: g,
-          energy: b.energy * g,
-          protein: b.protein * g,
-          fat: b.fat * g,
-          carbs: b.carbs * g,
-          micros: Object.fromEntries(
-            Object.entries(b.micros || {}).map(([k, v]) => [
-              k,
-              (v as number) * g,
-            ])
-          ) as Record<string, number>,
-        };
-      })
-    );
+    const g = Math.max(0, grams);
+    onUpdate(item.id, {
+      _basePerG: b,
+      serving: g,
+      energy: b.energy * g,
+      protein: b.protein * g,
+      fat: b.fat * g,
+      carbs: b.carbs * g,
+      micros: Object.fromEntries(
+        Object.entries(b.micros || {}).map(([k, v]) => [
+          k,
+          (v as number) * g,
+        ])
+      ) as Record<string, number>,
+    });
   };
 
   const commitAmount = () => {
     const raw = (amt ?? '').trim();
     const num = raw === '' ? 0 : Number(raw);
-    const grams = Number.isFinite(num) ? Math.max(0, num) : 0;
+    const grams = Number.isFinite(num) ? toGrams(Math.max(0, num), unit) : 0;
 
     if (grams <= 0) {
       setAmtError('Amount must be greater than 0');
-    } else if (grams > 10000) {
-      setAmtError('Amount must be 10000g or less');
+    } else if (grams > MAX_FOOD_GRAMS) {
+      setAmtError(`Amount must be ${formatMass(MAX_FOOD_GRAMS, display.units)} or less`);
     } else {
       setAmtError('');
     }
 
     handleAmountChange(grams);
-    setAmt(String(Math.max(0, Math.round(grams))));
+    setAmt(quantityText(grams, unit));
+  };
+
+  // Switching units keeps the grams and shows them in the new unit
+  const handleUnitChange = (key: string) => {
+    const next = units.find((u) => u.key === key);
+    if (!next) return;
+    onUpdate(item.id, { unit: { ...next, portions: item.unit?.portions || [], chosen: true } });
   };
 
   return (
@@ -463,7 +2069,7 @@ function FoodCard({
             id={amtId}
             type="number"
             min={0}
-            step={1}
+            step={unit.key === 'g' ? 1 : 'any'}
             value={amt}
             onKeyDown={(e) => {
               if (e.key === 'ArrowDown' && Number(amt) <= 0) e.preventDefault();
@@ -487,15 +2093,28 @@ function FoodCard({
           {amtError ? (
             <div className="mt-1 text-[9px] text-left text-rose-600">{amtError}</div>
           ) : (
-            <div className="mt-1 text-[10px] text-left text-slate-500">(g)</div>
+            <select
+              aria-label="Unit"
+              value={unit.key}
+              onChange={(e) => handleUnitChange(e.target.value)}
+              className="mt-1 w-full truncate rounded border-0 bg-transparent p-0 text-[10px] text-slate-500 focus:ring-0"
+            >
+              {units.map((u) => (
+                <option key={u.key} value={u.key}>
+                  {u.key === massUnit(display.units)
+                    ? `(${u.label})`
+                    : `${u.label} (${formatMass(u.grams, display.units)})`}
+                </option>
+              ))}
+            </select>
           )}
         </div>
 
         <Stat
           label="Calories"
-          value={`${round(kc, 0)}`}
+          value={`${round(energyValue(kc, display.energy), 0)}`}
           containerClass={NEUTRAL}
-          tooltip="(kcal)"
+          tooltip={`(${energyLabel(display.energy)})`}
         />
         <Stat
           label="Fiber"
@@ -517,10 +2136,12 @@ function FoodCard({
           (ok ? 'bg-emerald-100' : 'bg-rose-100')
         }
       >
-        <BadgeHalo label="FF" value={VFF} threshold={50} compact />
-        <BadgeHalo label="PF" value={VPF} threshold={30} compact />
-        <BadgeHalo label="WF" value={VWF} threshold={80} compact />
-        <BadgeHalo label="EF" value={VEF} threshold={1} compact />
+        <FactorBadges
+          profile={profile}
+          values={{ FF: VFF, PF: VPF, WF: VWF, EF: VEF }}
+          extras={extras}
+          compact
+        />
       </div>
 
       <div className="mt-2 flex items-center gap-2">
@@ -536,22 +2157,22 @@ function FoodCard({
             try {
               if (isFavorite) {
                 if (fdcId) {
-                  await supabase
-                    .from('favorites')
-                    .delete()
-                    .eq('user_id', DEFAULT_USER_ID)
-                    .eq('fdc_id', fdcId);
+                  await mutate({
+                    table: 'favorites',
+                    op: 'delete',
+                    filter: { user_id: userId, fdc_id: fdcId },
+                  });
                   setFavoriteFdcIds((prev) => {
                     const next = new Set(prev);
                     next.delete(fdcId);
                     return next;
                   });
                 } else if (customFoodId) {
-                  await supabase
-                    .from('favorites')
-                    .delete()
-                    .eq('user_id', DEFAULT_USER_ID)
-                    .eq('custom_food_id', customFoodId);
+                  await mutate({
+                    table: 'favorites',
+                    op: 'delete',
+                    filter: { user_id: userId, custom_food_id: customFoodId },
+                  });
                   setFavoriteCustomFoodIds((prev) => {
                     const next = new Set(prev);
                     next.delete(customFoodId);
@@ -569,15 +2190,18 @@ function FoodCard({
                   return;
                 }
                 if (fdcId) {
-                  await supabase
-                    .from('favorites')
-                    .insert({
-                      user_id: DEFAULT_USER_ID,
+                  await mutate({
+                    table: 'favorites',
+                    op: 'insert',
+                    rows: [{
+                      user_id: userId,
                       food_name: normalizedName,
                       fdc_id: fdcId,
-                    });
+                    }],
+                  });
                   setFavoriteFdcIds((prev) => new Set([...prev, fdcId]));
                   if (item._originalFood) {
+                    cacheFood(fdcId, item._originalFood);
                     setFavoriteFoodCache(prev => {
                       const newMap = new Map(prev);
                       newMap.set(fdcId, item._originalFood);
@@ -585,13 +2209,15 @@ function FoodCard({
                     });
                   }
                 } else if (customFoodId) {
-                  await supabase
-                    .from('favorites')
-                    .insert({
-                      user_id: DEFAULT_USER_ID,
+                  await mutate({
+                    table: 'favorites',
+                    op: 'insert',
+                    rows: [{
+                      user_id: userId,
                       food_name: normalizedName,
                       custom_food_id: customFoodId,
-                    });
+                    }],
+                  });
                   setFavoriteCustomFoodIds((prev) => new Set([...prev, customFoodId]));
                 }
                 setFavorites((prev) => new Set([...prev, normalizedName]));
@@ -611,7 +2237,7 @@ function FoodCard({
         })()}
         <div className="flex flex-wrap gap-2">
           {SELECTED_MICROS.map((m) => {
-            const val = safeNum(item.micros?.[m.key as keyof typeof item.micros]);
+            const val = safeNum(item.micros?.[m.key]);
             if (!val) return null;
             return (
               <span
@@ -627,11 +2253,24 @@ function FoodCard({
             );
           })}
         </div>
+        <NutrientPanel micros={item.micros} />
       </div>
 
-      <div className="mt-2 flex items-center justify-end">
+      <div className="mt-2 flex items-center justify-between">
+        <select
+          aria-label="Meal"
+          value={item.meal}
+          onChange={(e) => onUpdate(item.id, { meal: e.target.value as Meal })}
+          className="rounded-lg border border-slate-300 px-2 py-0.5 text-xs text-slate-600 focus:border-slate-500 focus:ring-0"
+        >
+          {MEALS.map((m) => (
+            <option key={m.key} value={m.key}>
+              {m.label}
+            </option>
+          ))}
+        </select>
         <button
-          onClick={() => setLog((prev) => prev.filter((i) => i.id !== item.id))}
+          onClick={() => onRemove(item.id)}
           className="text-xs text-slate-500 transition-colors hover:text-rose-600 cursor-pointer bg-transparent border-0 p-0"
         >
           Remove
@@ -761,8 +2400,234 @@ function downloadExcelXlsx(
   }
 }
 
+// ===================== Auth =====================
+function AuthPanel({ client }: { client: SupabaseClient }) {
+  const [mode, setMode] = useState<'signin' | 'signup' | 'magic'>('signin');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+
+  async function submit() {
+    setError('');
+    setNotice('');
+    const trimmed = email.trim();
+    if (!/^\S+@\S+\.\S+$/.test(trimmed)) {
+      setError('Enter a valid email address');
+      return;
+    }
+    if (mode !== 'magic' && password.length < 6) {
+      setError('Password must be at least 6 characters');
+      return;
+    }
+    setBusy(true);
+    try {
+      if (mode === 'signin') {
+        const { error } = await client.auth.signInWithPassword({
+          email: trimmed,
+          password,
+        });
+        if (error) throw error;
+      } else if (mode === 'signup') {
+        const { data, error } = await client.auth.signUp({
+          email: trimmed,
+          password,
+          options: { emailRedirectTo: window.location.origin },
+        });
+        if (error) throw error;
+        if (!data.session) {
+          setNotice('Check your email to confirm your account, then sign in.');
+        }
+      } else {
+        const { error } = await client.auth.signInWithOtp({
+          email: trimmed,
+          options: { emailRedirectTo: window.location.origin },
+        });
+        if (error) throw error;
+        setNotice('Check your email for a sign-in link.');
+      }
+    } catch (e: unknown) {
+      setError(e instanceof Error ? e.message : 'Sign-in failed');
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const tab = (key: typeof mode, label: string) => (
+    <button
+      className={
+        'px-3 py-1 ' +
+        (mode === key ? 'bg-slate-900 text-white' : 'bg-white text-black')
+      }
+      onClick={() => {
+        setMode(key);
+        setError('');
+        setNotice('');
+      }}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-b from-slate-50 to-white">
+      <div className="mx-auto max-w-md w-full px-4 py-16 box-border">
+        <div className="mb-6 flex items-center gap-3">
+          <img src="/toplogo2.png" alt="Logo" className="logo-spin h-8 w-8" />
+          <h1 className="text-2xl font-semibold tracking-tight">
+            The WLness System Food Calculator - beta
+          </h1>
+        </div>
+        <section className="rounded-2xl border bg-white p-6 shadow-sm">
+          <div className="mb-4 inline-flex overflow-hidden rounded-full border text-sm">
+            {tab('signin', 'Sign in')}
+            {tab('signup', 'Sign up')}
+            {tab('magic', 'Email link')}
+          </div>
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              submit();
+            }}
+          >
+            <div>
+              <label
+                htmlFor="authEmail"
+                className="mb-1 block text-xs uppercase tracking-wide text-slate-500"
+              >
+                Email
+              </label>
+              <input
+                id="authEmail"
+                type="email"
+                autoComplete="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+              />
+            </div>
+            {mode !== 'magic' && (
+              <div>
+                <label
+                  htmlFor="authPassword"
+                  className="mb-1 block text-xs uppercase tracking-wide text-slate-500"
+                >
+                  Password
+                </label>
+                <input
+                  id="authPassword"
+                  type="password"
+                  autoComplete={mode === 'signup' ? 'new-password' : 'current-password'}
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+                />
+              </div>
+            )}
+            {error && <p className="text-xs text-rose-600">{error}</p>}
+            {notice && <p className="text-xs text-emerald-700">{notice}</p>}
+            <button
+              type="submit"
+              disabled={busy}
+              className="w-full rounded-xl bg-slate-900 px-4 py-2 text-sm text-white disabled:opacity-50 hover:bg-slate-800 focus:outline-none focus:ring-0"
+            >
+              {busy
+                ? 'Please wait…'
+                : mode === 'signin'
+                  ? 'Sign in'
+                  : mode === 'signup'
+                    ? 'Create account'
+                    : 'Send sign-in link'}
+            </button>
+          </form>
+        </section>
+      </div>
+    </div>
+  );
+}
+
+// ===================== Profile =====================
+// The Your Details inputs, saved to user_settings. Height and weight are
+// stored once, in cm and kg, and fill in both the US and metric inputs.
+type Profile = {
+  units: Units;
+  sex: Sex;
+  age: number;
+  heightFt: number;
+  heightIn: number;
+  heightCm: number;
+  weightLb: number;
+  weightKg: number;
+  activity: number;
+  goal: Goal;
+};
+
+const validateAge = (value: number): string => {
+  if (value <= 0) return 'Age must be greater than 0';
+  if (value > 120) return 'Age must be 120 or less';
+  return '';
+};
+
+const validateHeightFt = (value: number): string => {
+  if (value < 0) return 'Height cannot be negative';
+  if (value > 9) return 'Height must be 9 feet or less';
+  return '';
+};
+
+const validateHeightIn = (value: number): string => {
+  if (value < 0) return 'Inches cannot be negative';
+  if (value >= 12) return 'Inches must be less than 12';
+  return '';
+};
+
+const validateHeightCm = (value: number): string => {
+  if (value <= 0) return 'Height must be greater than 0';
+  if (value > 300) return 'Height must be 300 cm or less';
+  return '';
+};
+
+const validateWeightLb = (value: number): string => {
+  if (value <= 0) return 'Weight must be greater than 0';
+  if (value > 1500) return 'Weight must be 1500 lb or less';
+  return '';
+};
+
+const validateWeightKg = (value: number): string => {
+  if (value <= 0) return 'Weight must be greater than 0';
+  if (value > 680) return 'Weight must be 680 kg or less';
+  return '';
+};
+
+// The user_settings columns for a profile; a value that fails its rule is left
+// out so a half-typed field never overwrites the saved one
+function profileSettings(p: Profile): Row {
+  const values: Row = { units: p.units, sex: p.sex, activity: p.activity, goal: p.goal };
+  if (!validateAge(p.age)) values.age = p.age;
+  if (p.units === 'us') {
+    const cm = ftInToCm(p.heightFt, p.heightIn);
+    if (!validateHeightFt(p.heightFt) && !validateHeightIn(p.heightIn) && cm > 0) {
+      values.height_cm = round(cm, 1);
+    }
+    if (!validateWeightLb(p.weightLb)) values.weight_kg = round(lbToKg(p.weightLb), 2);
+  } else {
+    if (!validateHeightCm(p.heightCm)) values.height_cm = p.heightCm;
+    if (!validateWeightKg(p.weightKg)) values.weight_kg = p.weightKg;
+  }
+  return values;
+}
+
 // ===================== App =====================
-export default function WellnessCalculator() {
+type AppUser = { id: string; email?: string };
+// The unsaved custom food form, as kept in user_settings.custom_food_draft
+type CustomFoodDraft = Partial<
+  Record<'name' | 'brand' | 'amount' | 'calories' | 'fiber' | 'protein' | 'fat' | 'carbs', string>
+> & { micros?: Record<string, string> };
+
+function WellnessCalculator({ user, onSignOut }: { user: AppUser; onSignOut?: () => void }) {
+  const userId = user.id;
+
   // ===== Calculator inputs (baseline) =====
   const [units, setUnits] = useState<Units>('us');
   const [sex, setSex] = useState<Sex>('male');
@@ -774,13 +2639,36 @@ export default function WellnessCalculator() {
   const [weightKg, setWeightKg] = useState<number>(0);
   const [activity, setActivity] = useState<number>(1.55);
   const [goal, setGoal] = useState<Goal>('maintain');
-
-  const cm = units === 'us' ? heightFt * 30.48 + heightIn * 2.54 : heightCm;
-  const kg = units === 'us' ? weightLb * 0.45359237 : weightKg;
+  const [bmrEquation, setBmrEquation] = useState<BmrEquation>(DEFAULT_BMR_EQUATION);
+  const [bodyMetrics, setBodyMetrics] = useState<BodyMetric[]>([]);
+  const latestWeightKg = useMemo(() => latestMetric(bodyMetrics)?.weightKg, [bodyMetrics]);
+
+  const cm = units === 'us' ? ftInToCm(heightFt, heightIn) : heightCm;
+  const kg = units === 'us' ? lbToKg(weightLb) : weightKg;
+  // Carries height and weight over so switching units keeps the profile
+  const switchUnits = (next: Units) => {
+    if (next === units) return;
+    if (next === 'us') {
+      if (cm > 0) {
+        const { ft, inches } = cmToFtIn(cm);
+        setHeightFt(ft);
+        setHeightIn(inches);
+      }
+      if (kg > 0) setWeightLb(round(kgToLb(kg), 1));
+    } else {
+      if (cm > 0) setHeightCm(round(cm, 1));
+      if (kg > 0) setWeightKg(round(kg, 1));
+    }
+    setUnits(next);
+  };
+  const bodyFatPct = useMemo(
+    () => latestMetric(bodyMetrics, 'bodyFatPct')?.bodyFatPct ?? null,
+    [bodyMetrics]
+  );
+  const bmrUsed = effectiveEquation(bmrEquation, bodyFatPct);
   const bmr = useMemo(
-    () =>
-      Math.max(10 * kg + 6.25 * cm - 5 * age + (sex === 'male' ? 5 : -161), 0),
-    [kg, cm, age, sex]
+    () => bmrFor(bmrEquation, { sex, age, kg, cm, bodyFatPct }),
+    [bmrEquation, sex, age, kg, cm, bodyFatPct]
   );
   const tdee = useMemo(() => bmr * activity, [bmr, activity]);
   const goalAdj: Record<Goal, number> = {
@@ -796,24 +2684,31 @@ export default function WellnessCalculator() {
   );
 
   // ===== Search state =====
-  const [fdcApiKey, setFdcApiKey] = useState('');
+  const [fdcApiKey, setFdcApiKey] = useState(loadPersonalFdcKey);
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<any[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [searchError, setSearchError] = useState('');
   const [showResults, setShowResults] = useState(true);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
+  // Set once loadSettings has finished, whether or not it succeeded; saves of
+  // loaded settings wait for it so defaults never overwrite the stored row
+  const [settingsLoaded, setSettingsLoaded] = useState(false);
   const [isDemoMode, setIsDemoMode] = useState(false);
+  const [searchSource, setSearchSource] = useState<'usda' | 'local'>('usda');
+  const [localFoodCount, setLocalFoodCount] = useState(0);
+  const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+  const [importMessage, setImportMessage] = useState('');
   const [currentPage, setCurrentPage] = useState(1);
   const [totalResults, setTotalResults] = useState(0);
   const [customFoodsPage, setCustomFoodsPage] = useState(1);
   const [favoritesPage, setFavoritesPage] = useState(1);
   const [showWFMode, setShowWFMode] = useState(false);
-  const [wfResults, setWfResults] = useState<any[]>([]);
+  const [wfTotal, setWfTotal] = useState(0);
   const [wfPage, setWfPage] = useState(1);
   const [isLoadingWF, setIsLoadingWF] = useState(false);
   const [showEFMode, setShowEFMode] = useState(false);
-  const [efResults, setEfResults] = useState<any[]>([]);
+  const [efTotal, setEfTotal] = useState(0);
   const [efPage, setEfPage] = useState(1);
   const [isLoadingEF, setIsLoadingEF] = useState(false);
 
@@ -823,57 +2718,46 @@ export default function WellnessCalculator() {
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
   const [showCustomFoodModal, setShowCustomFoodModal] = useState(false);
   const [showRemoveCustomFoodModal, setShowRemoveCustomFoodModal] = useState(false);
+  const [showRecipeBuilder, setShowRecipeBuilder] = useState(false);
   const [customFoodToRemove, setCustomFoodToRemove] = useState<any>(null);
+  // The custom food the Add Custom Food modal is editing, if any
+  const [editingCustomFood, setEditingCustomFood] = useState<Row | null>(null);
+  // The new-food draft the form held before an edit borrowed it
+  const draftBeforeEditRef = useRef<CustomFoodDraft | null>(null);
+  const [editingLogCount, setEditingLogCount] = useState(0);
+  const [updateLoggedCustomFood, setUpdateLoggedCustomFood] = useState(true);
   const [favoriteFoodCache, setFavoriteFoodCache] = useState<Map<number, any>>(new Map());
   const [cacheVersion, setCacheVersion] = useState(0);
+  const [favoriteHydration, setFavoriteHydration] = useState<{ done: number; total: number } | null>(null);
   const [customFoodName, setCustomFoodName] = useState('');
   const [customFoodBrand, setCustomFoodBrand] = useState('');
   const [customFoodAmount, setCustomFoodAmount] = useState('100');
   const [customFoodCalories, setCustomFoodCalories] = useState('');
   const [customFoodFiber, setCustomFoodFiber] = useState('');
   const [customFoodProtein, setCustomFoodProtein] = useState('');
+  const [customFoodFat, setCustomFoodFat] = useState('');
+  const [customFoodCarbs, setCustomFoodCarbs] = useState('');
+  // Registry nutrients beyond fiber, keyed like LogItem.micros
+  const [customFoodMicros, setCustomFoodMicros] = useState<Record<string, string>>({});
+  const [showCustomFoodMicros, setShowCustomFoodMicros] = useState(false);
   const [selectedEnergy, setSelectedEnergy] = useState<'bmr' | 'tdee' | 'target' | null>(null);
+  const [intakeStandard, setIntakeStandard] = useState<IntakeStandard>('dri');
+  const [energySource, setEnergySource] = useState<EnergySource>('label');
+  const [energyUnit, setEnergyUnit] = useState<EnergyUnit>('kcal');
+  const display = useMemo<DisplayUnits>(() => ({ units, energy: energyUnit }), [units, energyUnit]);
+  const [scoringProfiles, setScoringProfiles] = useState<ScoringProfile[]>(() =>
+    normalizeProfiles(null)
+  );
+  const [scoringProfileId, setScoringProfileId] = useState(DEFAULT_PROFILE_ID);
+  const scoringProfile = useMemo(
+    () => findProfile(scoringProfiles, scoringProfileId),
+    [scoringProfiles, scoringProfileId]
+  );
 
   const [validationErrors, setValidationErrors] = useState<Record<string, string>>({});
 
-  const validateAge = (value: number): string => {
-    if (value <= 0) return 'Age must be greater than 0';
-    if (value > 120) return 'Age must be 120 or less';
-    return '';
-  };
-
-  const validateHeightFt = (value: number): string => {
-    if (value < 0) return 'Height cannot be negative';
-    if (value > 9) return 'Height must be 9 feet or less';
-    return '';
-  };
-
-  const validateHeightIn = (value: number): string => {
-    if (value < 0) return 'Inches cannot be negative';
-    if (value >= 12) return 'Inches must be less than 12';
-    return '';
-  };
-
-  const validateHeightCm = (value: number): string => {
-    if (value <= 0) return 'Height must be greater than 0';
-    if (value > 300) return 'Height must be 300 cm or less';
-    return '';
-  };
-
-  const validateWeightLb = (value: number): string => {
-    if (value <= 0) return 'Weight must be greater than 0';
-    if (value > 1500) return 'Weight must be 1500 lb or less';
-    return '';
-  };
-
-  const validateWeightKg = (value: number): string => {
-    if (value <= 0) return 'Weight must be greater than 0';
-    if (value > 680) return 'Weight must be 680 kg or less';
-    return '';
-  };
-
   const validateUsdaKey = (value: string): string => {
-    if (!value.trim()) return 'API key is required to search';
+    if (!fdcProxyAvailable && !value.trim()) return 'API key is required to search';
     return '';
   };
 
@@ -883,20 +2767,27 @@ export default function WellnessCalculator() {
     return '';
   };
 
+  // Amount and calories are typed in the display units; limits apply to grams and kcal
   const validateCustomFoodAmount = (value: string): string => {
     const num = parseFloat(value);
     if (isNaN(num) || num <= 0) return 'Amount must be greater than 0';
-    if (num > 10000) return 'Amount must be 10000g or less';
+    if (massToGrams(num, units) > MAX_FOOD_GRAMS) {
+      return `Amount must be ${formatMass(MAX_FOOD_GRAMS, units)} or less`;
+    }
     return '';
   };
 
   const validateCustomFoodCalories = (value: string): string => {
     const num = parseFloat(value);
     if (isNaN(num) || num < 0) return 'Calories cannot be negative';
-    if (num > 10000) return 'Calories must be 10000 or less';
+    if (energyToKcal(num, energyUnit) > 10000) {
+      return `Calories must be ${formatEnergy(10000, energyUnit)} or less`;
+    }
     return '';
   };
 
+  const defaultCustomFoodAmount = () => String(round(massValue(100, units), 1));
+
   const validateCustomFoodNutrient = (value: string, name: string): string => {
     const num = parseFloat(value);
     if (isNaN(num) || num < 0) return `${name} cannot be negative`;
@@ -904,6 +2795,14 @@ export default function WellnessCalculator() {
     return '';
   };
 
+  const validateOptionalNutrient = (value: string, name: string): string =>
+    value.trim() === '' ? '' : validateCustomFoodNutrient(value, name);
+
+  const validateCustomFoodMicros = (values: Record<string, string>): string =>
+    Object.values(values).some((v) => v.trim() !== '' && !(parseFloat(v) >= 0))
+      ? 'Nutrient amounts cannot be negative'
+      : '';
+
   const setValidationError = (field: string, error: string) => {
     setValidationErrors((prev) => {
       if (error) {
@@ -920,85 +2819,277 @@ export default function WellnessCalculator() {
   useEffect(() => {
     const loadSettings = async () => {
       try {
-        const { data, error } = await supabase
-          .from('user_settings')
-          .select('*')
-          .eq('user_id', DEFAULT_USER_ID)
-          .maybeSingle();
+        const { data: rows, error } = await selectRows('user_settings', { user_id: userId });
 
         if (error) throw error;
+        const data = rows?.[0];
 
         if (data) {
-          setFdcApiKey(data.fdc_api_key || '');
-          setResults(data.search_results || []);
-          setTotalResults(data.total_results || 0);
-          const draft = data.custom_food_draft || {};
+          if (data.fdc_api_key) {
+            // Keys used to be saved on the server; move them onto this device
+            if (!loadPersonalFdcKey()) setFdcApiKey(String(data.fdc_api_key));
+            const { error: clearError } = await mutate({
+              table: 'user_settings',
+              op: 'update',
+              filter: { user_id: userId },
+              values: { fdc_api_key: '', updated_at: new Date().toISOString() },
+            });
+            if (clearError) console.error('Error clearing stored API key:', clearError);
+          }
+          setResults(Array.isArray(data.search_results) ? data.search_results : []);
+          setTotalResults(safeNum(data.total_results));
+          const draft = (data.custom_food_draft || {}) as CustomFoodDraft;
           setCustomFoodName(draft.name || '');
           setCustomFoodBrand(draft.brand || '');
           setCustomFoodAmount(draft.amount || '100');
           setCustomFoodCalories(draft.calories || '');
           setCustomFoodFiber(draft.fiber || '');
           setCustomFoodProtein(draft.protein || '');
+          setCustomFoodFat(draft.fat || '');
+          setCustomFoodCarbs(draft.carbs || '');
+          setCustomFoodMicros(draft.micros || {});
           setSelectedEnergy(data.selected_energy as 'bmr' | 'tdee' | 'target' | null || null);
+          if (isIntakeStandard(data.intake_standard)) setIntakeStandard(data.intake_standard);
+          if (isEnergySource(data.energy_source)) setEnergySource(data.energy_source);
+          if (isEnergyUnit(data.energy_unit)) setEnergyUnit(data.energy_unit);
+          setScoringProfiles(normalizeProfiles(data.scoring_profiles));
+          if (typeof data.scoring_profile === 'string' && data.scoring_profile)
+            setScoringProfileId(data.scoring_profile);
+          if (isUnits(data.units)) setUnits(data.units);
+          if (data.sex === 'male' || data.sex === 'female') setSex(data.sex);
+          if (safeNum(data.age) > 0) setAge(safeNum(data.age));
+          const savedCm = safeNum(data.height_cm);
+          if (savedCm > 0) {
+            const { ft, inches } = cmToFtIn(savedCm);
+            setHeightCm(round(savedCm, 1));
+            setHeightFt(ft);
+            setHeightIn(inches);
+          }
+          const savedKg = safeNum(data.weight_kg);
+          if (savedKg > 0) {
+            setWeightKg(round(savedKg, 1));
+            setWeightLb(round(kgToLb(savedKg), 1));
+          }
+          if (safeNum(data.activity) > 0) setActivity(safeNum(data.activity));
+          if (isGoal(data.goal)) setGoal(data.goal);
+          if (isBmrEquation(data.bmr_equation)) setBmrEquation(data.bmr_equation);
         } else {
-          const { error: insertError } = await supabase
-            .from('user_settings')
-            .insert({
-              user_id: DEFAULT_USER_ID,
+          const { error: insertError } = await mutate({
+            table: 'user_settings',
+            op: 'insert',
+            rows: [{
+              user_id: userId,
               fdc_api_key: '',
               search_results: [],
               custom_food_draft: {},
-            });
+            }],
+          });
 
           if (insertError) throw insertError;
         }
       } catch (error) {
         console.error('Error loading settings:', error);
+      } finally {
+        setSettingsLoaded(true);
       }
     };
     loadSettings();
-  }, []);
+  }, [userId]);
+
+  // Keep the personal API key on this device only
+  useEffect(() => {
+    savePersonalFdcKey(fdcApiKey);
+  }, [fdcApiKey]);
+
+  // Save selected energy to Supabase when it changes
+  useEffect(() => {
+    const saveSelectedEnergy = async () => {
+      try {
+        const { error } = await mutate({
+          table: 'user_settings',
+          op: 'update',
+          filter: { user_id: userId },
+          values: { selected_energy: selectedEnergy, updated_at: new Date().toISOString() },
+        });
+
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error saving selected energy:', error);
+      }
+    };
+
+    if (!isInitialLoad) {
+      saveSelectedEnergy();
+    }
+  }, [selectedEnergy, isInitialLoad, userId]);
 
-  // Save API key to Supabase when it changes
+  // Save intake standard to Supabase when it changes
   useEffect(() => {
-    const saveApiKey = async () => {
+    const saveIntakeStandard = async () => {
       try {
-        const { error } = await supabase
-          .from('user_settings')
-          .update({ fdc_api_key: fdcApiKey, updated_at: new Date().toISOString() })
-          .eq('user_id', DEFAULT_USER_ID);
+        const { error } = await mutate({
+          table: 'user_settings',
+          op: 'update',
+          filter: { user_id: userId },
+          values: { intake_standard: intakeStandard, updated_at: new Date().toISOString() },
+        });
 
         if (error) throw error;
       } catch (error) {
-        console.error('Error saving API key:', error);
+        console.error('Error saving intake standard:', error);
       }
     };
 
-    if (fdcApiKey) {
-      const timeoutId = setTimeout(saveApiKey, 500);
-      return () => clearTimeout(timeoutId);
+    if (!isInitialLoad) {
+      saveIntakeStandard();
     }
-  }, [fdcApiKey]);
+  }, [intakeStandard, isInitialLoad, userId]);
 
-  // Save selected energy to Supabase when it changes
+  // Save energy source to Supabase when it changes
   useEffect(() => {
-    const saveSelectedEnergy = async () => {
+    const saveEnergySource = async () => {
       try {
-        const { error } = await supabase
-          .from('user_settings')
-          .update({ selected_energy: selectedEnergy, updated_at: new Date().toISOString() })
-          .eq('user_id', DEFAULT_USER_ID);
+        const { error } = await mutate({
+          table: 'user_settings',
+          op: 'update',
+          filter: { user_id: userId },
+          values: { energy_source: energySource, updated_at: new Date().toISOString() },
+        });
 
         if (error) throw error;
       } catch (error) {
-        console.error('Error saving selected energy:', error);
+        console.error('Error saving energy source:', error);
       }
     };
 
     if (!isInitialLoad) {
-      saveSelectedEnergy();
+      saveEnergySource();
+    }
+  }, [energySource, isInitialLoad, userId]);
+
+  // Save the Your Details profile to Supabase when it changes
+  useEffect(() => {
+    if (isInitialLoad || !settingsLoaded) return;
+
+    const saveProfile = async () => {
+      try {
+        const values = profileSettings({
+          units,
+          sex,
+          age,
+          heightFt,
+          heightIn,
+          heightCm,
+          weightLb,
+          weightKg,
+          activity,
+          goal,
+        });
+        const { error } = await mutate({
+          table: 'user_settings',
+          op: 'update',
+          filter: { user_id: userId },
+          values: { ...values, updated_at: new Date().toISOString() },
+        });
+
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error saving profile:', error);
+      }
+    };
+
+    const timeoutId = setTimeout(saveProfile, 500);
+    return () => clearTimeout(timeoutId);
+  }, [units, sex, age, heightFt, heightIn, heightCm, weightLb, weightKg, activity, goal, isInitialLoad, settingsLoaded, userId]);
+
+  // Save BMR equation to Supabase when it changes
+  useEffect(() => {
+    const saveBmrEquation = async () => {
+      try {
+        const { error } = await mutate({
+          table: 'user_settings',
+          op: 'update',
+          filter: { user_id: userId },
+          values: { bmr_equation: bmrEquation, updated_at: new Date().toISOString() },
+        });
+
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error saving BMR equation:', error);
+      }
+    };
+
+    if (!isInitialLoad && settingsLoaded) {
+      saveBmrEquation();
+    }
+  }, [bmrEquation, isInitialLoad, settingsLoaded, userId]);
+
+  // Save energy unit to Supabase when it changes
+  useEffect(() => {
+    const saveEnergyUnit = async () => {
+      try {
+        const { error } = await mutate({
+          table: 'user_settings',
+          op: 'update',
+          filter: { user_id: userId },
+          values: { energy_unit: energyUnit, updated_at: new Date().toISOString() },
+        });
+
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error saving energy unit:', error);
+      }
+    };
+
+    if (!isInitialLoad && settingsLoaded) {
+      saveEnergyUnit();
+    }
+  }, [energyUnit, isInitialLoad, settingsLoaded, userId]);
+
+  // Save the active scoring profile to Supabase when it changes
+  useEffect(() => {
+    const saveScoringProfile = async () => {
+      try {
+        const { error } = await mutate({
+          table: 'user_settings',
+          op: 'update',
+          filter: { user_id: userId },
+          values: { scoring_profile: scoringProfileId, updated_at: new Date().toISOString() },
+        });
+
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error saving scoring profile:', error);
+      }
+    };
+
+    if (!isInitialLoad && settingsLoaded) {
+      saveScoringProfile();
     }
-  }, [selectedEnergy, isInitialLoad]);
+  }, [scoringProfileId, isInitialLoad, settingsLoaded, userId]);
+
+  // Save edited scoring profiles once typing settles
+  useEffect(() => {
+    if (isInitialLoad || !settingsLoaded) return;
+
+    const saveScoringProfiles = async () => {
+      try {
+        const { error } = await mutate({
+          table: 'user_settings',
+          op: 'update',
+          filter: { user_id: userId },
+          values: { scoring_profiles: scoringProfiles, updated_at: new Date().toISOString() },
+        });
+
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error saving scoring profiles:', error);
+      }
+    };
+
+    const timeoutId = setTimeout(saveScoringProfiles, 500);
+    return () => clearTimeout(timeoutId);
+  }, [scoringProfiles, isInitialLoad, settingsLoaded, userId]);
 
   // Save search results to Supabase when they change
   useEffect(() => {
@@ -1006,10 +3097,12 @@ export default function WellnessCalculator() {
 
     const saveResults = async () => {
       try {
-        const { error } = await supabase
-          .from('user_settings')
-          .update({ search_results: results, total_results: totalResults, updated_at: new Date().toISOString() })
-          .eq('user_id', DEFAULT_USER_ID);
+        const { error } = await mutate({
+          table: 'user_settings',
+          op: 'update',
+          filter: { user_id: userId },
+          values: { search_results: results, total_results: totalResults, updated_at: new Date().toISOString() },
+        });
 
         if (error) throw error;
       } catch (error) {
@@ -1019,10 +3112,12 @@ export default function WellnessCalculator() {
 
     const timeoutId = setTimeout(saveResults, 500);
     return () => clearTimeout(timeoutId);
-  }, [results, totalResults, isInitialLoad]);
+  }, [results, totalResults, isInitialLoad, userId]);
 
-  // Save custom food draft data when it changes
+  // Save custom food draft data when it changes; while a saved custom food is
+  // being edited the form is not the draft, so it is left alone
   useEffect(() => {
+    if (editingCustomFood) return;
     const saveDraft = async () => {
       try {
         const draft = {
@@ -1032,15 +3127,20 @@ export default function WellnessCalculator() {
           calories: customFoodCalories,
           fiber: customFoodFiber,
           protein: customFoodProtein,
+          fat: customFoodFat,
+          carbs: customFoodCarbs,
+          micros: customFoodMicros,
         };
 
-        const { error } = await supabase
-          .from('user_settings')
-          .update({
+        const { error } = await mutate({
+          table: 'user_settings',
+          op: 'update',
+          filter: { user_id: userId },
+          values: {
             custom_food_draft: draft,
             updated_at: new Date().toISOString()
-          })
-          .eq('user_id', DEFAULT_USER_ID);
+          },
+        });
 
         if (error) throw error;
       } catch (error) {
@@ -1050,10 +3150,29 @@ export default function WellnessCalculator() {
 
     const timeoutId = setTimeout(saveDraft, 500);
     return () => clearTimeout(timeoutId);
-  }, [customFoodName, customFoodBrand, customFoodAmount, customFoodCalories, customFoodFiber, customFoodProtein]);
+  }, [customFoodName, customFoodBrand, customFoodAmount, customFoodCalories, customFoodFiber, customFoodProtein, customFoodFat, customFoodCarbs, customFoodMicros, editingCustomFood, userId]);
 
   // ===== Food log & CSV (state + sticky fallback) =====
   const [log, setLog] = useState<LogItem[]>([]);
+  // The log as of the latest change, even before React re-renders, so edits
+  // made back to back each diff against the one before
+  const logRef = useRef<LogItem[]>([]);
+  useEffect(() => {
+    logRef.current = log;
+  }, [log]);
+  const [showPlanner, setShowPlanner] = useState(false);
+  const [recentFoods, setRecentFoods] = useState<LogItem[]>([]);
+  const [logDate, setLogDate] = useState<string>(() => toDateKey(new Date()));
+  // Day the current `log` array was loaded for; null while a day is loading.
+  // The log is shown and written only once it matches the selected day.
+  const [loadedLogDate, setLoadedLogDate] = useState<string | null>(null);
+  const logReady = loadedLogDate === logDate;
+  const [logLoadFailed, setLogLoadFailed] = useState(false);
+  // Bumped by the Retry button to load the day again
+  const [logReload, setLogReload] = useState(0);
+  // Meal slot that newly added foods are logged under
+  const [activeMeal, setActiveMeal] = useState<Meal>(() => mealForTime(new Date()));
+  const [logError, setLogError] = useState('');
   const [csvPreview, setCsvPreview] = useState<string>('');
   const [showCsv, setShowCsv] = useState<boolean>(true);
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
@@ -1073,18 +3192,23 @@ export default function WellnessCalculator() {
     favoritesPage * itemsPerPage
   );
   const searchResultsPages = Math.max(totalPages, Math.ceil(results.length / itemsPerPage));
-  const wfTotalPages = Math.ceil(wfResults.length / 10);
-  const efTotalPages = Math.ceil(efResults.length / 10);
+  const wfTotalPages = Math.ceil(wfTotal / RANKED_PAGE_SIZE);
+  const efTotalPages = Math.ceil(efTotal / RANKED_PAGE_SIZE);
+
+  // Size of the imported USDA database on this device
+  useEffect(() => {
+    countLocalFoods().then(setLocalFoodCount);
+  }, []);
 
   // Load custom foods from Supabase
   useEffect(() => {
     const loadCustomFoods = async () => {
       try {
-        const { data, error } = await supabase
-          .from('custom_foods')
-          .select('*')
-          .eq('user_id', DEFAULT_USER_ID)
-          .order('created_at', { ascending: false });
+        const { data, error } = await selectRows(
+          'custom_foods',
+          { user_id: userId },
+          { column: 'created_at', ascending: false }
+        );
 
         if (error) throw error;
 
@@ -1094,16 +3218,28 @@ export default function WellnessCalculator() {
       }
     };
     loadCustomFoods();
-  }, []);
+  }, [userId]);
+
+  // Load body measurements
+  useEffect(() => {
+    fetchBodyMetrics(userId)
+      .then(setBodyMetrics)
+      .catch((error) => console.error('Error loading body measurements:', error));
+  }, [userId]);
+
+  // The latest logged weight feeds BMR/TDEE through the weight inputs. It is
+  // applied after settings load so the saved profile weight cannot replace it.
+  useEffect(() => {
+    if (!settingsLoaded || latestWeightKg === undefined) return;
+    setWeightKg(round(latestWeightKg, 1));
+    setWeightLb(round(kgToLb(latestWeightKg), 1));
+  }, [latestWeightKg, settingsLoaded]);
 
   // Load favorites from Supabase on mount
   useEffect(() => {
     const loadFavorites = async () => {
       try {
-        const { data, error } = await supabase
-          .from('favorites')
-          .select('food_name, fdc_id, custom_food_id')
-          .eq('user_id', DEFAULT_USER_ID);
+        const { data, error } = await selectRows('favorites', { user_id: userId });
 
         if (error) throw error;
 
@@ -1121,6 +3257,13 @@ export default function WellnessCalculator() {
           });
           setFavoriteFdcIds(fdcSet);
           setFavoriteCustomFoodIds(customSet);
+
+          // Show favorites straight from the USDA cache instead of refetching them
+          const cached = await getCachedFoods([...fdcSet]);
+          if (cached.size > 0) {
+            setFavoriteFoodCache((prev) => new Map([...cached, ...prev]));
+            setCacheVersion((prev) => prev + 1);
+          }
         }
       } catch (error) {
         console.error('Error loading favorites:', error);
@@ -1128,124 +3271,292 @@ export default function WellnessCalculator() {
     };
     loadFavorites();
     setTimeout(() => setIsInitialLoad(false), 1000);
-  }, []);
+  }, [userId]);
+
+  // The cache as of the latest render; hydration reads it without restarting
+  // (and aborting its own requests) every time a batch lands
+  const favoriteFoodCacheRef = useRef(favoriteFoodCache);
+  useEffect(() => {
+    favoriteFoodCacheRef.current = favoriteFoodCache;
+  }, [favoriteFoodCache]);
 
-  // Fetch missing favorite foods when Favorites section is shown
+  // Fetch missing favorite foods in batches while the Favorites section is shown
   useEffect(() => {
-    if (!showFavoritesOnly || !fdcApiKey) {
+    if (!showFavoritesOnly || (!fdcApiKey && !fdcProxyAvailable)) {
       return;
     }
 
-    const fetchMissingFavorites = async () => {
-      console.log('Fetching missing favorites...', {
-        fdcFavoritesCount: favoriteFdcIds.size,
-        cacheSize: favoriteFoodCache.size
-      });
+    const missing = [...favoriteFdcIds].filter(
+      (fdcId) =>
+        !favoriteFoodCacheRef.current.has(fdcId) &&
+        !results.some(r => r?.fdcId === fdcId || r?.FdcId === fdcId)
+    );
+    if (missing.length === 0) return;
 
-      for (const fdcId of favoriteFdcIds) {
-        console.log('Checking favorite fdcId:', fdcId);
+    // Leaving the Favorites view cancels whatever is still in flight
+    const controller = new AbortController();
+    const concurrency = 3;
+    const total = missing.length;
+    let done = 0;
 
-        const inResults = results.find(r => r?.fdcId === fdcId || r?.FdcId === fdcId);
-        if (inResults) {
-          console.log('Found in results:', fdcId);
-          continue;
-        }
+    const storeFoods = (foods: Map<number, unknown>) => {
+      if (foods.size === 0 || controller.signal.aborted) return;
+      setFavoriteFoodCache(prev => new Map([...prev, ...foods]));
+      setCacheVersion(prev => prev + 1);
+    };
 
-        if (!favoriteFoodCache.has(fdcId)) {
-          console.log('Fetching food from API:', fdcId);
-          await fetchFoodByFdcId(fdcId);
-        } else {
-          console.log('Already in cache:', fdcId);
+    const fetchChunk = async (fdcIds: number[]) => {
+      try {
+        const res = await fdcFetch('/foods', {}, fdcApiKey, {
+          signal: controller.signal,
+          body: { fdcIds },
+        });
+        if (!res.ok) throw new Error(fdcErrorMessage(res));
+        const data: Array<{ fdcId?: number }> = await res.json();
+        const fetched = new Map<number, unknown>();
+        (Array.isArray(data) ? data : []).forEach((food) => {
+          if (!food?.fdcId) return;
+          fetched.set(food.fdcId, food);
+          cacheFood(food.fdcId, food);
+        });
+        storeFoods(fetched);
+      } catch (e) {
+        if (!(e instanceof Error && e.name === 'AbortError')) {
+          console.error('Error fetching favorite foods:', e);
         }
       }
-      console.log('Finished fetching favorites');
+      done += fdcIds.length;
+      if (!controller.signal.aborted) setFavoriteHydration({ done, total });
+    };
+
+    const hydrateFavorites = async () => {
+      setFavoriteHydration({ done, total });
+      const cached = await getCachedFoods(missing);
+      storeFoods(cached);
+      done = cached.size;
+      if (controller.signal.aborted) return;
+      setFavoriteHydration({ done, total });
+
+      const toFetch = missing.filter((fdcId) => !cached.has(fdcId));
+      const chunks: number[][] = [];
+      for (let i = 0; i < toFetch.length; i += FDC_BATCH_SIZE) {
+        chunks.push(toFetch.slice(i, i + FDC_BATCH_SIZE));
+      }
+      let next = 0;
+      const worker = async () => {
+        while (next < chunks.length && !controller.signal.aborted) {
+          await fetchChunk(chunks[next++]);
+        }
+      };
+      await Promise.all(Array.from({ length: Math.min(concurrency, chunks.length) }, worker));
+      if (!controller.signal.aborted) setFavoriteHydration(null);
     };
 
-    fetchMissingFavorites();
+    hydrateFavorites();
+    return () => {
+      controller.abort();
+      setFavoriteHydration(null);
+    };
   }, [showFavoritesOnly, favorites, favoriteFdcIds, customFoods, results, fdcApiKey]);
 
-  // Load log from Supabase on mount
+  // Load the selected day's log from Supabase
   useEffect(() => {
+    let cancelled = false;
+    // Never show or write one day's entries under another
+    setLoadedLogDate(null);
+    setLogLoadFailed(false);
+    logRef.current = [];
+    setLog([]);
     const loadLog = async () => {
       try {
-        const { data, error } = await supabase
-          .from('food_log')
-          .select('*')
-          .eq('user_id', DEFAULT_USER_ID)
-          .order('created_at', { ascending: true });
+        const { data, error } = await selectRows(
+          'food_log',
+          { user_id: userId, log_date: logDate },
+          { column: 'created_at', ascending: true }
+        );
 
         if (error) throw error;
+        if (cancelled) return;
 
-        if (data) {
-          const items = data.map((item: any) => {
-            const serving = Number(item.amount);
-            const basePerG = item.base_per_g || {
-              energy: 0,
-              protein: 0,
-              fat: 0,
-              carbs: 0,
-              micros: {},
-            };
-            return {
-              name: item.name,
-              serving: serving,
-              energy: basePerG.energy * serving,
-              protein: basePerG.protein * serving,
-              fat: basePerG.fat * serving,
-              carbs: basePerG.carbs * serving,
-              micros: Object.fromEntries(
-                Object.entries(basePerG.micros || {}).map(([k, v]) => [
-                  k,
-                  (v as number) * serving,
-                ])
-              ) as Record<string, number>,
-              _basePerG: basePerG,
-              fdcId: item.fdc_id,
-              customFoodId: item.custom_food_id,
-            };
-          });
-          setLog(items.map(ensureBasePerG));
-        }
+        setLog((data || []).map(logRowToItem));
+        setLoadedLogDate(logDate);
       } catch (error) {
         console.error('Error loading food log:', error);
+        if (!cancelled) setLogLoadFailed(true);
       }
     };
     loadLog();
-  }, []);
+    return () => {
+      cancelled = true;
+    };
+  }, [logDate, userId, logReload]);
 
-  // Save log to Supabase when it changes
+  // Recently logged foods join the planner's pool once it is opened
   useEffect(() => {
-    const saveLog = async () => {
+    if (!showPlanner) return;
+    let cancelled = false;
+    const loadRecentFoods = async () => {
       try {
-        await supabase
-          .from('food_log')
-          .delete()
-          .eq('user_id', DEFAULT_USER_ID);
-
-        if (log.length > 0) {
-          const items = log.map((item) => ({
-            user_id: DEFAULT_USER_ID,
+        const { data, error } = await selectRows(
+          'food_log',
+          { user_id: userId, log_date: { gte: shiftDateKey(toDateKey(new Date()), -RECENT_DAYS) } },
+          { column: 'created_at', ascending: false }
+        );
+
+        if (error) throw error;
+        if (cancelled) return;
+
+        const seen = new Set<string>();
+        const recent: LogItem[] = [];
+        for (const row of data || []) {
+          const key = row.fdc_id
+            ? `fdc-${row.fdc_id}`
+            : row.custom_food_id
+              ? `custom-${row.custom_food_id}`
+              : `name-${String(row.name).toLowerCase()}`;
+          if (seen.has(key)) continue;
+          seen.add(key);
+          recent.push(logRowToItem(row));
+          if (recent.length >= RECENT_FOODS) break;
+        }
+        setRecentFoods(recent);
+      } catch (error) {
+        console.error('Error loading recent foods:', error);
+      }
+    };
+    loadRecentFoods();
+    return () => {
+      cancelled = true;
+    };
+  }, [showPlanner, userId]);
+
+  // ===== Food log writes =====
+  // Each change is applied to `log` first and then persisted as a single
+  // targeted row operation; if the write fails the change is rolled back.
+  async function writeLog(
+    write: () => PromiseLike<{ error: unknown }>,
+    rollback: () => void,
+    failure: string
+  ) {
+    setLogError('');
+    try {
+      const { error } = await write();
+      if (error) throw error;
+    } catch (error) {
+      console.error(failure, error);
+      rollback();
+      setLogError(`${failure} Your change was undone.`);
+    }
+  }
+
+  function insertLogItem(item: LogItem) {
+    if (!logReady) {
+      setLogError("This day's log has not loaded yet, so the food was not added.");
+      return;
+    }
+    logRef.current = [item, ...logRef.current];
+    setLog((prev) => [item, ...prev]);
+    return writeLog(
+      () =>
+        mutate({
+          table: 'food_log',
+          op: 'insert',
+          rows: [{
+            id: item.id,
+            user_id: userId,
+            log_date: logDate,
+            meal: item.meal,
             name: item.name,
             amount: item.serving,
             base_per_g: item._basePerG,
             fdc_id: item.fdcId || null,
             custom_food_id: item.customFoodId || null,
-          }));
+            unit: item.unit || null,
+          }],
+        }),
+      () => setLog((prev) => prev.filter((i) => i.id !== item.id)),
+      'Could not add food.'
+    );
+  }
 
-          const { error } = await supabase
-            .from('food_log')
-            .insert(items);
+  function updateLogItem(id: string, patch: Partial<LogItem>) {
+    if (!logReady) return;
+    const before = logRef.current.find((i) => i.id === id);
+    if (!before) return;
+    const after = { ...before, ...patch };
+    logRef.current = logRef.current.map((i) => (i.id === id ? after : i));
+    setLog((prev) => prev.map((i) => (i.id === id ? after : i)));
+    if (
+      after.serving === before.serving &&
+      after.meal === before.meal &&
+      after.unit === before.unit
+    ) {
+      return;
+    }
+    return writeLog(
+      () =>
+        mutate({
+          table: 'food_log',
+          op: 'update',
+          filter: { user_id: userId, id },
+          values: {
+            amount: after.serving,
+            meal: after.meal,
+            unit: after.unit || null,
+            updated_at: new Date().toISOString(),
+          },
+        }),
+      // Only undo this edit; a later one that already landed stays
+      () => setLog((prev) => prev.map((i) => (i === after ? before : i))),
+      'Could not update food.'
+    );
+  }
 
-          if (error) throw error;
-        }
-      } catch (error) {
-        console.error('Error saving food log:', error);
-      }
-    };
+  function removeLogItem(id: string) {
+    if (!logReady) return;
+    const index = logRef.current.findIndex((i) => i.id === id);
+    if (index < 0) return;
+    const removed = logRef.current[index];
+    logRef.current = logRef.current.filter((i) => i.id !== id);
+    setLog((prev) => prev.filter((i) => i.id !== id));
+    return writeLog(
+      () =>
+        mutate({
+          table: 'food_log',
+          op: 'delete',
+          filter: { user_id: userId, id },
+        }),
+      () =>
+        setLog((prev) => {
+          if (prev.some((i) => i.id === id)) return prev;
+          const next = [...prev];
+          next.splice(Math.min(index, next.length), 0, removed);
+          return next;
+        }),
+      'Could not remove food.'
+    );
+  }
 
-    const timeoutId = setTimeout(saveLog, 500);
-    return () => clearTimeout(timeoutId);
-  }, [log]);
+  function clearLogDay() {
+    if (!logReady) return;
+    const removed = logRef.current;
+    logRef.current = [];
+    setLog([]);
+    return writeLog(
+      () =>
+        mutate({
+          table: 'food_log',
+          op: 'delete',
+          filter: { user_id: userId, log_date: logDate },
+        }),
+      () =>
+        setLog((prev) => [
+          ...removed.filter((r) => !prev.some((i) => i.id === r.id)),
+          ...prev,
+        ]),
+      'Could not clear day.'
+    );
+  }
 
   // Demo foods helper
   const useDemoFoods = () => {
@@ -1331,52 +3642,8 @@ export default function WellnessCalculator() {
     setIsDemoMode(true);
   };
 
-  async function fetchFoodByFdcId(fdcId: number, retryCount = 0) {
-    if (!fdcApiKey) {
-      console.log('No API key for fetching food:', fdcId);
-      return null;
-    }
-    if (favoriteFoodCache.has(fdcId)) {
-      console.log('Food already in cache:', fdcId);
-      return favoriteFoodCache.get(fdcId);
-    }
-    try {
-      console.log('Fetching food from USDA API:', fdcId, 'retry:', retryCount);
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000);
-
-      const url = `https://api.nal.usda.gov/fdc/v1/food/${fdcId}?api_key=${fdcApiKey}`;
-      const res = await fetch(url, { signal: controller.signal });
-      clearTimeout(timeoutId);
-
-      if (!res.ok) {
-        console.log('Failed to fetch food:', res.status, fdcId);
-        if (retryCount < 2) {
-          await new Promise(resolve => setTimeout(resolve, 1000));
-          return fetchFoodByFdcId(fdcId, retryCount + 1);
-        }
-        return null;
-      }
-      const food = await res.json();
-      console.log('Successfully fetched food:', fdcId, food);
-      setFavoriteFoodCache(prev => {
-        const newMap = new Map(prev);
-        newMap.set(fdcId, food);
-        return newMap;
-      });
-      setCacheVersion(prev => prev + 1);
-      return food;
-    } catch (e) {
-      console.error('Error fetching food by FDC ID:', e);
-      if (retryCount < 2 && e instanceof Error && e.name !== 'AbortError') {
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        return fetchFoodByFdcId(fdcId, retryCount + 1);
-      }
-      return null;
-    }
-  }
-
   async function searchFoods(pageNumber = 1) {
+    if (searchSource === 'local') return searchLocalDatabase(pageNumber);
     setSearchError('');
     const keyError = validateUsdaKey(fdcApiKey);
     if (keyError) {
@@ -1385,21 +3652,19 @@ export default function WellnessCalculator() {
     }
     setIsSearching(true);
     try {
-      if (!fdcApiKey)
+      if (!fdcApiKey && !fdcProxyAvailable)
         throw new Error('Enter your (free) USDA API key or use demo foods.');
-      const url = new URL('https://api.nal.usda.gov/fdc/v1/foods/search');
-      url.searchParams.set('api_key', fdcApiKey);
-      url.searchParams.set('query', query.trim());
-      url.searchParams.set('pageSize', String(itemsPerPage));
-      url.searchParams.set('pageNumber', String(pageNumber));
-      url.searchParams.set(
-        'dataType',
-        ['Branded', 'Survey (FNDDS)', 'Foundation', 'SR Legacy'].join(',')
+      const res = await fdcFetch(
+        '/foods/search',
+        {
+          query: query.trim(),
+          pageSize: String(itemsPerPage),
+          pageNumber: String(pageNumber),
+          dataType: ['Branded', 'Survey (FNDDS)', 'Foundation', 'SR Legacy'].join(','),
+        },
+        fdcApiKey
       );
-      const res = await fetch(url.toString());
-      if (res.status === 403)
-        throw new Error('403 from USDA. Check your key, or click demo.');
-      if (!res.ok) throw new Error(`Search failed (${res.status}).`);
+      if (!res.ok) throw new Error(fdcErrorMessage(res));
       const data = await res.json();
       console.log('API Response:', { totalHits: data?.totalHits, foodsCount: data?.foods?.length });
       if (data?.foods?.length > 0) {
@@ -1407,6 +3672,9 @@ export default function WellnessCalculator() {
         console.log('Sample food fdcId check:', data.foods[0].fdcId, data.foods[0].FdcId);
       }
       const foods = Array.isArray(data?.foods) ? data.foods : [];
+      indexFoodsLocally(
+        foods.filter((f: any) => INDEXED_DATA_TYPES.includes(f?.dataType)).map(toIndexRow)
+      ).catch((e) => console.warn('Could not update food index', e));
       const newTotalResults = data?.totalHits || (foods.length > itemsPerPage ? foods.length : 0);
 
       setResults(foods);
@@ -1425,245 +3693,145 @@ export default function WellnessCalculator() {
     }
   }
 
-  async function searchFoodsByWF(pageNumber = 1) {
-    console.log('WF button clicked! fdcApiKey:', fdcApiKey ? 'present' : 'missing');
+  async function searchLocalDatabase(pageNumber = 1) {
     setSearchError('');
-    const keyError = validateUsdaKey(fdcApiKey);
-    if (keyError) {
-      console.log('WF Search - Key validation error:', keyError);
-      setValidationError('usdaKey', keyError);
-      return;
-    }
-    setIsLoadingWF(true);
+    setIsSearching(true);
     try {
-      if (!fdcApiKey) {
-        console.log('WF Search - No API key provided');
-        throw new Error('Enter your (free) USDA API key or use demo foods.');
-      }
-
-      const searchQuery = query.trim() || 'fruits and vegetables';
-      const maxResults = 30000;
-      const pageSize = 200;
-      const maxPages = Math.ceil(maxResults / pageSize);
-
-      let allFoods: any[] = [];
-
-      for (let page = 1; page <= maxPages; page++) {
-        const url = new URL('https://api.nal.usda.gov/fdc/v1/foods/search');
-        url.searchParams.set('api_key', fdcApiKey);
-        url.searchParams.set('query', searchQuery);
-        url.searchParams.set('pageSize', String(pageSize));
-        url.searchParams.set('pageNumber', String(page));
-        url.searchParams.set(
-          'dataType',
-          ['Survey (FNDDS)', 'Foundation', 'SR Legacy'].join(',')
-        );
-
-        const res = await fetch(url.toString());
-        if (res.status === 403)
-          throw new Error('403 from USDA. Check your key, or click demo.');
-        if (!res.ok) throw new Error(`Search failed (${res.status}).`);
-        const data = await res.json();
-        const pageFoods = Array.isArray(data?.foods) ? data.foods : [];
-
-        if (pageFoods.length === 0) break;
-
-        allFoods = allFoods.concat(pageFoods);
-
-        if (allFoods.length >= maxResults || pageFoods.length < pageSize) break;
-      }
-
-      const foods = allFoods;
-
-      console.log('WF Search - Total foods fetched:', foods.length);
-
-      const foodsWithWF = foods.map((food: any) => {
-        const parsed = safeParse(food, 100);
-        const fiberG = parsed.micros?.fiber || 0;
-        const proteinG = parsed.protein || 0;
-        const cal = parsed.energy || 0;
-
-        const vff = ff(cal, fiberG);
-        const vpf = pf(cal, proteinG);
-        const wfValue = wf(vff, vpf);
-
-        return {
-          ...food,
-          _wf: wfValue,
-          _ff: vff,
-          _pf: vpf,
-          _cal: cal,
-          _fiber: fiberG,
-          _protein: proteinG
-        };
-      });
-
-      console.log('WF Search - Sample food data:', foodsWithWF.slice(0, 3).map((f: any) => ({
-        name: f.description,
-        cal: f._cal,
-        fiber: f._fiber,
-        protein: f._protein,
-        ff: f._ff,
-        pf: f._pf,
-        wf: f._wf
-      })));
-
-      const filteredFoods = foodsWithWF.filter((food: any) =>
-        Number.isFinite(food._wf) && food._cal > 0
-      );
-      console.log('WF Search - Foods with finite WF:', filteredFoods.length);
+      if (localFoodCount === 0)
+        throw new Error('The local food database is empty. Import a USDA download first.');
+      const { foods, total } = await searchLocalFoods(query, pageNumber, itemsPerPage);
+      if (total === 0) throw new Error('No foods in the local database match that search.');
 
-      if (filteredFoods.length === 0) {
-        throw new Error(`No foods with valid WF scores found. The API returned ${foods.length} food(s), but none had sufficient fiber and protein data to calculate WF scores. Try using Demo mode instead.`);
-      }
-
-      filteredFoods.sort((a: any, b: any) => a._wf - b._wf);
-
-      const itemsPerPageWF = 10;
-      const startIndex = (pageNumber - 1) * itemsPerPageWF;
-      const endIndex = startIndex + itemsPerPageWF;
-      const paginatedResults = filteredFoods.slice(startIndex, endIndex);
-
-      console.log('WF Search - Paginated results:', paginatedResults.length);
-
-      setWfResults(filteredFoods);
-      setResults(paginatedResults);
-      setWfPage(pageNumber);
-      setShowWFMode(true);
-      setShowEFMode(false);
+      setResults(foods.map(localFoodToFdc));
+      setTotalResults(total);
+      setCurrentPage(pageNumber);
       setShowResults(true);
       setShowCustomFoods(false);
       setShowFavoritesOnly(false);
+      setShowWFMode(false);
+      setShowEFMode(false);
       setIsDemoMode(false);
     } catch (e: any) {
-      console.error('WF Search Error:', e);
-      setSearchError(e?.message || 'WF search failed');
+      setSearchError(e?.message || 'Search failed');
     } finally {
-      setIsLoadingWF(false);
+      setIsSearching(false);
     }
   }
 
-  async function searchFoodsByEF(pageNumber = 1) {
-    console.log('EF button clicked! fdcApiKey:', fdcApiKey ? 'present' : 'missing');
-    setSearchError('');
-    const keyError = validateUsdaKey(fdcApiKey);
-    if (keyError) {
-      console.log('EF Search - Key validation error:', keyError);
-      setValidationError('usdaKey', keyError);
-      return;
+  async function importFoodFiles(files: File[]) {
+    if (files.length === 0) return;
+    setImportMessage('');
+    setImportProgress({ phase: 'Starting import', foods: 0 });
+    try {
+      const imported = await importFdcFiles(
+        files,
+        (food) => {
+          const n = safeParse(food, 100);
+          return { ...n, micros: { ...n.micros } };
+        },
+        setImportProgress,
+        // Generic foods also feed the WF/EF ranking index on the local backends
+        (foods) =>
+          indexFoodsLocally(
+            foods.filter((f) => INDEXED_DATA_TYPES.includes(String(f.dataType))).map(toIndexRow)
+          )
+      );
+      setLocalFoodCount(await countLocalFoods());
+      setSearchSource('local');
+      setImportMessage(`Imported ${imported.toLocaleString()} foods.`);
+    } catch (e) {
+      console.error('Error importing USDA download:', e);
+      setImportMessage(e instanceof Error ? e.message : 'Import failed');
+    } finally {
+      setImportProgress(null);
     }
-    setIsLoadingEF(true);
+  }
+
+  // Index rows carry only calories, macros and fiber. Swap each ranked result
+  // for its full USDA document, from the cache or one batch request, so its
+  // micronutrients come along when it is added or favorited.
+  async function hydrateRankedFoods(ranked: ReturnType<typeof indexRowToFood>[]) {
     try {
-      if (!fdcApiKey) {
-        console.log('EF Search - No API key provided');
-        throw new Error('Enter your (free) USDA API key or use demo foods.');
+      const full = await getCachedFoods(ranked.map((f) => f.fdcId));
+      const missing = ranked.map((f) => f.fdcId).filter((fdcId) => !full.has(fdcId));
+      if (missing.length > 0 && (fdcApiKey || fdcProxyAvailable)) {
+        const res = await fdcFetch('/foods', {}, fdcApiKey, { body: { fdcIds: missing } });
+        if (!res.ok) throw new Error(fdcErrorMessage(res));
+        const data: Array<{ fdcId?: number }> = await res.json();
+        (Array.isArray(data) ? data : []).forEach((food) => {
+          if (!food?.fdcId) return;
+          full.set(food.fdcId, food);
+          cacheFood(food.fdcId, food);
+        });
       }
+      if (full.size === 0) return;
+      // Keep the ranking values, and leave a page another search has replaced
+      setResults((prev) =>
+        prev === ranked
+          ? ranked.map((f) =>
+              full.has(f.fdcId)
+                ? { ...(full.get(f.fdcId) as object), _wf: f._wf, _ef: f._ef, _cal: f._cal }
+                : f
+            )
+          : prev
+      );
+    } catch (e) {
+      console.error('Error loading ranked foods:', e);
+    }
+  }
 
-      const searchQuery = query.trim() || 'meat, dairy, and sweets';
-      const maxResults = 30000;
-      const pageSize = 200;
-      const maxPages = Math.ceil(maxResults / pageSize);
-
-      let allFoods: any[] = [];
-
-      for (let page = 1; page <= maxPages; page++) {
-        const url = new URL('https://api.nal.usda.gov/fdc/v1/foods/search');
-        url.searchParams.set('api_key', fdcApiKey);
-        url.searchParams.set('query', searchQuery);
-        url.searchParams.set('pageSize', String(pageSize));
-        url.searchParams.set('pageNumber', String(page));
-        url.searchParams.set(
-          'dataType',
-          ['Survey (FNDDS)', 'Foundation', 'SR Legacy'].join(',')
+  async function searchFoodsByRank(mode: RankMode, pageNumber = 1) {
+    const label = mode.toUpperCase();
+    setSearchError('');
+    const setLoading = mode === 'wf' ? setIsLoadingWF : setIsLoadingEF;
+    setLoading(true);
+    try {
+      const { rows, total } = await rankFoods({
+        mode,
+        query,
+        page: pageNumber,
+        pageSize: RANKED_PAGE_SIZE,
+      });
+      if (total === 0) {
+        throw new Error(
+          backend === 'supabase'
+            ? `No foods matched ${label} mode. Try a broader search, or use Demo mode instead.`
+            : `No foods indexed for ${label} mode yet. Run a few searches for generic foods (they are indexed as you go), or use Demo mode instead.`
         );
-
-        const res = await fetch(url.toString());
-        if (res.status === 403)
-          throw new Error('403 from USDA. Check your key, or click demo.');
-        if (!res.ok) throw new Error(`Search failed (${res.status}).`);
-        const data = await res.json();
-        const pageFoods = Array.isArray(data?.foods) ? data.foods : [];
-
-        if (pageFoods.length === 0) break;
-
-        allFoods = allFoods.concat(pageFoods);
-
-        if (allFoods.length >= maxResults || pageFoods.length < pageSize) break;
       }
 
-      const foods = allFoods;
-
-      console.log('EF Search - Total foods fetched:', foods.length);
-
-      const foodsWithFactors = foods.map((food: any) => {
-        const parsed = safeParse(food, 100);
-        const fiberG = parsed.micros?.fiber || 0;
-        const proteinG = parsed.protein || 0;
-        const cal = parsed.energy || 0;
-        const massG = 100;
-
-        const vff = ff(cal, fiberG);
-        const vpf = pf(cal, proteinG);
-        const wfValue = wf(vff, vpf);
-        const efValue = ef(cal, massG);
-
-        return {
-          ...food,
-          _wf: wfValue,
-          _ef: efValue,
-          _cal: cal,
-          _mass: massG
-        };
-      });
-
-      console.log('EF Search - Sample food data:', foodsWithFactors.slice(0, 3).map((f: any) => ({
-        name: f.description,
-        cal: f._cal,
-        wf: f._wf,
-        ef: f._ef
-      })));
-
-      const filteredFoods = foodsWithFactors.filter((food: any) =>
-        !Number.isFinite(food._wf) && food._cal > 0
-      );
-      console.log('EF Search - Foods with infinite WF:', filteredFoods.length);
-
-      if (filteredFoods.length === 0) {
-        throw new Error(`No foods with infinite WF found. The API returned ${foods.length} food(s), but none had infinite WF values (foods lacking fiber or protein data). Try using Demo mode instead.`);
+      const ranked = rows.map(indexRowToFood);
+      setResults(ranked);
+      hydrateRankedFoods(ranked);
+      if (mode === 'wf') {
+        setWfTotal(total);
+        setWfPage(pageNumber);
+      } else {
+        setEfTotal(total);
+        setEfPage(pageNumber);
       }
-
-      filteredFoods.sort((a: any, b: any) => a._ef - b._ef);
-
-      const itemsPerPageEF = 10;
-      const startIndex = (pageNumber - 1) * itemsPerPageEF;
-      const endIndex = startIndex + itemsPerPageEF;
-      const paginatedResults = filteredFoods.slice(startIndex, endIndex);
-
-      console.log('EF Search - Paginated results:', paginatedResults.length);
-
-      setEfResults(filteredFoods);
-      setResults(paginatedResults);
-      setEfPage(pageNumber);
-      setShowEFMode(true);
-      setShowWFMode(false);
+      setShowWFMode(mode === 'wf');
+      setShowEFMode(mode === 'ef');
       setShowResults(true);
       setShowCustomFoods(false);
       setShowFavoritesOnly(false);
       setIsDemoMode(false);
     } catch (e: any) {
-      console.error('EF Search Error:', e);
-      setSearchError(e?.message || 'EF search failed');
+      console.error(`${label} Search Error:`, e);
+      setSearchError(e?.message || `${label} search failed`);
     } finally {
-      setIsLoadingEF(false);
+      setLoading(false);
     }
   }
 
+  const searchFoodsByWF = (pageNumber = 1) => searchFoodsByRank('wf', pageNumber);
+  const searchFoodsByEF = (pageNumber = 1) => searchFoodsByRank('ef', pageNumber);
+
   function parseFood(food: any, foodName?: string): LogItem {
-    const declared =
-      food?.servingSize && (food?.servingSizeUnit || '').toLowerCase() === 'g'
-        ? food.servingSize
-        : undefined;
-    const serving = declared && declared > 0 ? declared : 100;
+    // Start at one label serving when the food has one, else 100 g
+    const portions = foodPortions(food);
+    const declared = portions.find((u) => u.key === 'serving');
+    const serving = declared ? declared.grams : 100;
     const n = safeParse(food, serving);
     const denom = Math.max(serving, 1);
     const basePerG = {
@@ -1674,6 +3842,7 @@ export default function WellnessCalculator() {
       micros: Object.fromEntries(
         Object.entries(n.micros || {}).map(([k, v]) => [k, safeNum(v) / denom])
       ) as Record<string, number>,
+      ...(n.factors ? { factors: n.factors } : {}),
     };
     const item: LogItem = ensureBasePerG({
       id: `${food?.fdcId ?? Math.random()}-${Date.now()}`,
@@ -1694,17 +3863,20 @@ export default function WellnessCalculator() {
       ) as Record<string, number>,
       _basePerG: basePerG,
       fdcId: food?.fdcId || food?.FdcId,
+      unit:
+        portions.length > 0 ? { ...(declared || GRAM_UNIT), portions } : undefined,
       _originalFood: food,
     });
     return item;
   }
 
   function addFood(food: any) {
-    const item = food._basePerG ? ensureBasePerG({
-      ...food,
-      id: `${food.id}-${Date.now()}`,
-    }) : parseFood(food);
-    setLog((prev) => [item, ...prev]);
+    const item = {
+      ...(food._basePerG ? ensureBasePerG(food) : parseFood(food)),
+      id: crypto.randomUUID(),
+      meal: activeMeal,
+    };
+    insertLogItem(item);
     // After adding, jump to first food in the list and focus its Amount box
     try {
       const cardId = `food-card-${item.id}`;
@@ -1731,70 +3903,144 @@ export default function WellnessCalculator() {
     }
   }
 
+  // The custom food form as numbers; blank fat/carbs stay null
+  function customFoodFormValues() {
+    const optional = (v: string) => (v.trim() === '' ? null : safeNum(v, 0));
+    return {
+      amount: massToGrams(safeNum(customFoodAmount, massValue(100, units)), units),
+      calories: energyToKcal(safeNum(customFoodCalories, 0), energyUnit),
+      protein: safeNum(customFoodProtein, 0),
+      fat: optional(customFoodFat),
+      carbs: optional(customFoodCarbs),
+      micros: {
+        ...Object.fromEntries(
+          Object.entries(customFoodMicros).map(([k, v]) => [k, safeNum(v, 0)])
+        ),
+        fiber: safeNum(customFoodFiber, 0),
+      } as Record<string, number>,
+    };
+  }
+
+  function resetCustomFoodForm() {
+    setCustomFoodName('');
+    setCustomFoodBrand('');
+    setCustomFoodAmount(defaultCustomFoodAmount());
+    setCustomFoodCalories('');
+    setCustomFoodFiber('');
+    setCustomFoodProtein('');
+    setCustomFoodFat('');
+    setCustomFoodCarbs('');
+    setCustomFoodMicros({});
+    setShowCustomFoodMicros(false);
+    setValidationError('customFoodName', '');
+    setValidationError('customFoodAmount', '');
+    setValidationError('customFoodCalories', '');
+    setValidationError('customFoodFiber', '');
+    setValidationError('customFoodProtein', '');
+    setValidationError('customFoodFat', '');
+    setValidationError('customFoodCarbs', '');
+    setValidationError('customFoodMicros', '');
+  }
+
+  // Ends an edit and puts the new-food draft it set aside back in the form
+  function finishCustomFoodEdit() {
+    const draft = draftBeforeEditRef.current || {};
+    draftBeforeEditRef.current = null;
+    setEditingCustomFood(null);
+    resetCustomFoodForm();
+    setCustomFoodName(draft.name || '');
+    setCustomFoodBrand(draft.brand || '');
+    setCustomFoodAmount(draft.amount || defaultCustomFoodAmount());
+    setCustomFoodCalories(draft.calories || '');
+    setCustomFoodFiber(draft.fiber || '');
+    setCustomFoodProtein(draft.protein || '');
+    setCustomFoodFat(draft.fat || '');
+    setCustomFoodCarbs(draft.carbs || '');
+    setCustomFoodMicros(draft.micros || {});
+  }
+
   async function handleCustomFoodSubmit() {
     const nameError = validateCustomFoodName(customFoodName);
     const amountError = validateCustomFoodAmount(customFoodAmount);
     const caloriesError = validateCustomFoodCalories(customFoodCalories);
     const fiberError = validateCustomFoodNutrient(customFoodFiber, 'Fiber');
     const proteinError = validateCustomFoodNutrient(customFoodProtein, 'Protein');
+    const fatError = validateOptionalNutrient(customFoodFat, 'Fat');
+    const carbsError = validateOptionalNutrient(customFoodCarbs, 'Carbs');
+    const microsError = validateCustomFoodMicros(customFoodMicros);
 
-    if (nameError || amountError || caloriesError || fiberError || proteinError) {
+    if (
+      nameError ||
+      amountError ||
+      caloriesError ||
+      fiberError ||
+      proteinError ||
+      fatError ||
+      carbsError ||
+      microsError
+    ) {
       setValidationError('customFoodName', nameError);
       setValidationError('customFoodAmount', amountError);
       setValidationError('customFoodCalories', caloriesError);
       setValidationError('customFoodFiber', fiberError);
       setValidationError('customFoodProtein', proteinError);
+      setValidationError('customFoodFat', fatError);
+      setValidationError('customFoodCarbs', carbsError);
+      setValidationError('customFoodMicros', microsError);
+      if (microsError) setShowCustomFoodMicros(true);
       return;
     }
 
     const name = customFoodName.trim();
     const brand = customFoodBrand.trim();
-    const amount = safeNum(customFoodAmount, 100);
-    const calories = safeNum(customFoodCalories, 0);
-    const fiber = safeNum(customFoodFiber, 0);
-    const protein = safeNum(customFoodProtein, 0);
+    const values = customFoodFormValues();
+    const basePerG = customFoodBasePerG(values);
+    const fields = {
+      name,
+      brand,
+      amount: values.amount,
+      calories: values.calories,
+      fiber: values.micros.fiber,
+      protein: values.protein,
+      fat: basePerG.fat * values.amount,
+      carbs: basePerG.carbs * values.amount,
+      base_per_g: basePerG,
+    };
 
     try {
-      const { error } = await supabase
-        .from('custom_foods')
-        .insert({
-          user_id: DEFAULT_USER_ID,
-          name,
-          brand,
-          amount,
-          calories,
-          fiber,
-          protein,
+      if (editingCustomFood) {
+        await updateCustomFood(editingCustomFood, fields);
+      } else {
+        const { error } = await mutate({
+          table: 'custom_foods',
+          op: 'insert',
+          rows: [{ user_id: userId, ...fields }],
         });
 
-      if (error) throw error;
+        if (error) throw error;
+      }
 
       setShowCustomFoodModal(false);
-      setCustomFoodName('');
-      setCustomFoodBrand('');
-      setCustomFoodAmount('100');
-      setCustomFoodCalories('');
-      setCustomFoodFiber('');
-      setCustomFoodProtein('');
-      setValidationError('customFoodName', '');
-      setValidationError('customFoodAmount', '');
-      setValidationError('customFoodCalories', '');
-      setValidationError('customFoodFiber', '');
-      setValidationError('customFoodProtein', '');
-
-      await supabase
-        .from('user_settings')
-        .update({
-          custom_food_draft: {},
-          updated_at: new Date().toISOString()
-        })
-        .eq('user_id', DEFAULT_USER_ID);
+      if (editingCustomFood) {
+        finishCustomFoodEdit();
+      } else {
+        resetCustomFoodForm();
+        await mutate({
+          table: 'user_settings',
+          op: 'update',
+          filter: { user_id: userId },
+          values: {
+            custom_food_draft: {},
+            updated_at: new Date().toISOString()
+          },
+        });
+      }
 
-      const { data: customFoodsData } = await supabase
-        .from('custom_foods')
-        .select('*')
-        .eq('user_id', DEFAULT_USER_ID)
-        .order('created_at', { ascending: false });
+      const { data: customFoodsData } = await selectRows(
+        'custom_foods',
+        { user_id: userId },
+        { column: 'created_at', ascending: false }
+      );
 
       setCustomFoods(customFoodsData || []);
     } catch (error) {
@@ -1803,79 +4049,357 @@ export default function WellnessCalculator() {
     }
   }
 
+  // Recipes are custom foods whose amount is the finished weight
+  async function saveRecipe(recipe: RecipeDraft): Promise<boolean> {
+    const basePerG = recipeBasePerG(recipe);
+    const amount = recipeWeight(recipe);
+    try {
+      const { error } = await mutate({
+        table: 'custom_foods',
+        op: 'insert',
+        rows: [{
+          user_id: userId,
+          name: recipe.name,
+          brand: recipe.brand,
+          amount,
+          calories: basePerG.energy * amount,
+          fiber: safeNum(basePerG.micros.fiber) * amount,
+          protein: basePerG.protein * amount,
+          ingredients: recipe.ingredients,
+          yield_grams: recipe.yieldGrams,
+          base_per_g: basePerG,
+        }],
+      });
+
+      if (error) throw error;
+
+      const { data: customFoodsData } = await selectRows(
+        'custom_foods',
+        { user_id: userId },
+        { column: 'created_at', ascending: false }
+      );
+
+      setCustomFoods(customFoodsData || []);
+      return true;
+    } catch (error) {
+      console.error('Error saving recipe:', error);
+      return false;
+    }
+  }
+
+  // One entry per day: saving a date that already has one replaces it
+  async function saveBodyMetric(entry: BodyMetricDraft): Promise<boolean> {
+    const values = {
+      measured_on: entry.date,
+      weight_kg: entry.weightKg,
+      waist_cm: entry.waistCm,
+      body_fat_pct: entry.bodyFatPct,
+    };
+    const existing = bodyMetrics.find((e) => e.date === entry.date);
+    try {
+      const { error } = existing
+        ? await mutate({
+            table: 'body_metrics',
+            op: 'update',
+            filter: { user_id: userId, id: existing.id },
+            values: { ...values, updated_at: new Date().toISOString() },
+          })
+        : await mutate({
+            table: 'body_metrics',
+            op: 'insert',
+            rows: [{ user_id: userId, ...values }],
+          });
+
+      if (error) throw error;
+
+      setBodyMetrics(await fetchBodyMetrics(userId));
+      return true;
+    } catch (error) {
+      console.error('Error saving body measurement:', error);
+      return false;
+    }
+  }
+
+  async function removeBodyMetric(id: string) {
+    try {
+      const { error } = await mutate({
+        table: 'body_metrics',
+        op: 'delete',
+        filter: { user_id: userId, id },
+      });
+
+      if (error) throw error;
+
+      setBodyMetrics((prev) => prev.filter((e) => e.id !== id));
+    } catch (error) {
+      console.error('Error removing body measurement:', error);
+    }
+  }
+
+  // Opens the custom food modal on an existing row
+  async function editCustomFood(cf: Row) {
+    const item = customFoodToItem(cf);
+    if (!editingCustomFood) {
+      draftBeforeEditRef.current = {
+        name: customFoodName,
+        brand: customFoodBrand,
+        amount: customFoodAmount,
+        calories: customFoodCalories,
+        fiber: customFoodFiber,
+        protein: customFoodProtein,
+        fat: customFoodFat,
+        carbs: customFoodCarbs,
+        micros: customFoodMicros,
+      };
+    }
+    setEditingCustomFood(cf);
+    setCustomFoodName(String(cf.name ?? ''));
+    setCustomFoodBrand(String(cf.brand ?? ''));
+    setCustomFoodAmount(String(round(massValue(item.serving, units), 1)));
+    setCustomFoodCalories(String(round(energyValue(safeNum(cf.calories), energyUnit), 1)));
+    setCustomFoodProtein(String(round(item.protein, 1)));
+    setCustomFoodFiber(String(round(safeNum(item.micros.fiber), 1)));
+    setCustomFoodFat(String(round(item.fat, 1)));
+    setCustomFoodCarbs(String(round(item.carbs, 1)));
+    setCustomFoodMicros(
+      Object.fromEntries(
+        Object.entries(item.micros)
+          .filter(([k]) => k !== 'fiber')
+          .map(([k, v]) => [k, String(round(v, 2))])
+      )
+    );
+    setUpdateLoggedCustomFood(true);
+    setEditingLogCount(0);
+    setShowCustomFoodModal(true);
+
+    try {
+      const { data, error } = await selectRows('food_log', {
+        user_id: userId,
+        custom_food_id: String(cf.id),
+      });
+      if (error) throw error;
+      setEditingLogCount(data?.length || 0);
+    } catch (error) {
+      console.error('Error counting logged entries:', error);
+    }
+  }
+
+  // Saves edits to a custom food, and by default carries its new name and
+  // nutrients into every log entry and favorite that references it by id
+  async function updateCustomFood(
+    cf: Row,
+    fields: Row & { name: string; base_per_g: LogItem['_basePerG'] }
+  ) {
+    const id = String(cf.id);
+    const now = new Date().toISOString();
+    const { error } = await mutate({
+      table: 'custom_foods',
+      op: 'update',
+      filter: { id, user_id: userId },
+      // Edited nutrients no longer follow a recipe's ingredients
+      values: {
+        ...fields,
+        ...(cf.ingredients ? { ingredients: null, yield_grams: null } : {}),
+        updated_at: now,
+      },
+    });
+    if (error) throw error;
+
+    if (fields.name.toLowerCase() !== String(cf.name).toLowerCase()) {
+      const { error: favoriteError } = await mutate({
+        table: 'favorites',
+        op: 'update',
+        filter: { user_id: userId, custom_food_id: id },
+        values: { food_name: fields.name.toLowerCase() },
+      });
+      if (favoriteError) console.error('Error renaming favorite:', favoriteError);
+      if (favoriteCustomFoodIds.has(id)) {
+        setFavorites((prev) => {
+          const next = new Set(prev);
+          next.delete(String(cf.name).toLowerCase());
+          next.add(fields.name.toLowerCase());
+          return next;
+        });
+      }
+    }
+
+    if (!updateLoggedCustomFood) return;
+    const { error: logUpdateError } = await mutate({
+      table: 'food_log',
+      op: 'update',
+      filter: { user_id: userId, custom_food_id: id },
+      values: { name: fields.name, base_per_g: fields.base_per_g, updated_at: now },
+    });
+    if (logUpdateError) throw logUpdateError;
+    setLog((prev) =>
+      prev.map((x) =>
+        x.customFoodId === id
+          ? itemAtGrams({ ...x, name: fields.name, _basePerG: fields.base_per_g }, x.serving)
+          : x
+      )
+    );
+  }
+
   async function handleCustomFoodCancel() {
-    setShowCustomFoodModal(false);
-    setCustomFoodName('');
-    setCustomFoodBrand('');
-    setCustomFoodAmount('100');
-    setCustomFoodCalories('');
-    setCustomFoodFiber('');
-    setCustomFoodProtein('');
-    setValidationError('customFoodName', '');
-    setValidationError('customFoodAmount', '');
-    setValidationError('customFoodCalories', '');
-    setValidationError('customFoodFiber', '');
-    setValidationError('customFoodProtein', '');
+    setShowCustomFoodModal(false);
+    if (editingCustomFood) return finishCustomFoodEdit();
+    resetCustomFoodForm();
 
     try {
-      await supabase
-        .from('user_settings')
-        .update({
+      await mutate({
+        table: 'user_settings',
+        op: 'update',
+        filter: { user_id: userId },
+        values: {
           custom_food_draft: {},
           updated_at: new Date().toISOString()
-        })
-        .eq('user_id', DEFAULT_USER_ID);
+        },
+      });
     } catch (error) {
       console.error('Error clearing draft:', error);
     }
   }
 
   // Totals
-  const totals = useMemo(
+  const totals = useMemo(() => summarizeLog(log, energySource), [log, energySource]);
+  const TFF = totals.FF,
+    TPF = totals.PF,
+    TWF = totals.WF,
+    TEF = totals.EF;
+  const dayMicros = totals.micros;
+  const dayExtras = extraScores(scoringProfile, totals.cal, dayMicros);
+  const dayOk = isScoreOk(scoringProfile, totals, dayExtras);
+  // Caps tied to calories follow the selected energy, else the goal target
+  const intakeCalories =
+    selectedEnergy === 'bmr' ? bmr : selectedEnergy === 'tdee' ? tdee : targetCalories;
+  const intakes = useMemo(
+    () => referenceIntakes(intakeStandard, sex, age, intakeCalories),
+    [intakeStandard, sex, age, intakeCalories]
+  );
+  const mealGroups = useMemo(
     () =>
-      log.reduce(
-        (acc, x) => {
-          const kc =
-            safeNum(x.protein) * 4 + safeNum(x.fat) * 9 + safeNum(x.carbs) * 4;
-          acc.mass += Math.max(0, safeNum(x.serving));
-          acc.cal += kc;
-          acc.protein += safeNum(x.protein);
-          acc.fiber += safeNum(x.micros?.fiber);
-          return acc;
-        },
-        { mass: 0, cal: 0, protein: 0, fiber: 0 }
-      ),
-    [log]
+      MEALS.map((m) => {
+        const items = log.filter((x) => x.meal === m.key);
+        return { ...m, items, totals: summarizeLog(items, energySource) };
+      }),
+    [log, energySource]
+  );
+
+  // Food pools for the planner and the day fixes: favorites first, then
+  // custom foods, then recent foods or search results
+  const favoriteItems = useMemo(
+    () => [
+      ...[...favoriteFdcIds].flatMap((id) => {
+        const food = favoriteFoodCache.get(id);
+        return food ? [parseFood(food)] : [];
+      }),
+      ...customFoods.filter((cf) => favoriteCustomFoodIds.has(cf.id)).map(customFoodToItem),
+    ],
+    [favoriteFdcIds, favoriteFoodCache, favoriteCustomFoodIds, customFoods]
+  );
+  const customItems = useMemo(() => customFoods.map(customFoodToItem), [customFoods]);
+  const planCandidates = useMemo(
+    () =>
+      candidatePool([
+        ['Favorite', favoriteItems],
+        ['Custom', customItems],
+        ['Recent', recentFoods],
+      ]),
+    [favoriteItems, customItems, recentFoods]
   );
-  const TFF = ff(totals.cal, totals.fiber),
-    TPF = pf(totals.cal, totals.protein),
-    TWF = wf(TFF, TPF),
-    TEF = ef(totals.cal, totals.mass);
+  const fixCandidates = useMemo(
+    () =>
+      candidatePool([
+        ['Favorite', favoriteItems],
+        ['Custom', customItems],
+        ['Search', results.filter((f) => f?.fdcId).map((f) => parseFood(f))],
+      ]),
+    [favoriteItems, customItems, results]
+  );
+  // Recipe ingredients: every entry in the day's log, then other foods not already logged
+  const recipeCandidates = useMemo(() => {
+    const logged = new Set(log.map(foodKey));
+    return [
+      ...log.map((item) => ({ key: item.id, source: RECIPE_LOGGED, item })),
+      ...fixCandidates.filter((c) => !logged.has(c.key)),
+    ];
+  }, [log, fixCandidates]);
 
   // CSV/Excel rows
   function buildCsvRows(): Array<Array<string | number>> {
+    const extraLabels = scoringProfile.extras.map((x) => x.label);
+    // Columns follow the display units
+    const E = energyLabel(energyUnit),
+      M = massUnit(units);
+    const energy = (kcal: number) => round(energyValue(kcal, energyUnit), 0);
+    const mass = (grams: number) => round(massValue(Math.max(0, grams), units), 1);
     const rows: Array<Array<string | number>> = [
       ['=== Energy ==='],
-      ['BMR (kcal)', round(bmr, 0)],
-      ['TDEE (kcal)', round(tdee, 0)],
-      ['Target (kcal)', round(targetCalories, 0)],
+      [`BMR (${E})`, energy(bmr)],
+      [`TDEE (${E})`, energy(tdee)],
+      [`Target (${E})`, energy(targetCalories)],
+      [
+        'BMR equation',
+        bmrUsed === bmrEquation
+          ? bmrEquationLabel(bmrEquation)
+          : `${bmrEquationLabel(bmrEquation)} (no body fat logged; used ${bmrEquationLabel(bmrUsed)})`,
+      ],
+      ['Energy source', ENERGY_SOURCES.find((s) => s.key === energySource)?.label || ''],
+      ['Scoring profile', scoringProfile.name],
       [''],
       ['=== Food Log (totals) ==='],
-      ['Amount (g)', round(totals.mass, 1)],
-      ['Calories (kcal)', round(totals.cal, 0)],
+      ['Date', logDate],
+      [`Amount (${M})`, mass(totals.mass)],
+      [`Calories (${E})`, energy(totals.cal)],
       ['Fiber (g)', round(totals.fiber, 1)],
       ['Protein (g)', round(totals.protein, 1)],
       ['FF', formatFactor(TFF)],
       ['PF', formatFactor(TPF)],
       ['WF', formatFactor(TWF)],
       ['EF', formatFactor(TEF, true)],
+      ...dayExtras.map((x) => [x.label, formatFactor(x.value, x.threshold < 10)]),
+      ['OK', dayOk ? 'Yes' : 'No'],
+      [''],
+      ['=== Meals ==='],
+      [
+        'Meal',
+        `Amount (${M})`,
+        E,
+        'Fiber (g)',
+        'Protein (g)',
+        'FF',
+        'PF',
+        'WF',
+        'EF',
+        ...extraLabels,
+        'OK',
+      ],
+      ...mealGroups
+        .filter((g) => g.items.length > 0)
+        .map((g) => {
+          const extras = extraScores(scoringProfile, g.totals.cal, g.totals.micros);
+          return [
+            g.label,
+            mass(g.totals.mass),
+            energy(g.totals.cal),
+            round(g.totals.fiber, 1),
+            round(g.totals.protein, 1),
+            formatFactor(g.totals.FF),
+            formatFactor(g.totals.PF),
+            formatFactor(g.totals.WF),
+            formatFactor(g.totals.EF, true),
+            ...extras.map((x) => formatFactor(x.value, x.threshold < 10)),
+            isScoreOk(scoringProfile, g.totals, extras) ? 'Yes' : 'No',
+          ];
+        }),
       [''],
       ['=== Items ==='],
       [
+        'Meal',
         'Name',
         'Brand',
-        'Serving (g)',
-        'kcal',
+        `Serving (${M})`,
+        E,
         'Protein (g)',
         'Fat (g)',
         'Carbs (g)',
@@ -1888,20 +4412,23 @@ export default function WellnessCalculator() {
         'PF',
         'WF',
         'EF',
+        ...extraLabels,
+        'OK',
       ],
-      ...log.map((x) => {
-        const kc =
-          safeNum(x.protein) * 4 + safeNum(x.fat) * 9 + safeNum(x.carbs) * 4;
+      ...mealGroups.flatMap((g) => g.items).map((x) => {
+        const kc = itemKcal(x, energySource);
         const fiber = safeNum(x.micros?.fiber);
         const F1 = ff(kc, fiber),
           F2 = pf(kc, safeNum(x.protein)),
           F3 = wf(F1, F2),
           F4 = ef(kc, Math.max(0, safeNum(x.serving)));
+        const extras = extraScores(scoringProfile, kc, x.micros);
         return [
+          mealLabel(x.meal),
           x.name,
           x.brand || '',
-          Math.max(0, round(x.serving, 1)),
-          round(kc, 0),
+          mass(x.serving),
+          energy(kc),
           round(x.protein, 1),
           round(x.fat, 1),
           round(x.carbs, 1),
@@ -1914,6 +4441,8 @@ export default function WellnessCalculator() {
           formatFactor(F2),
           formatFactor(F3),
           formatFactor(F4, true),
+          ...extras.map((e) => formatFactor(e.value, e.threshold < 10)),
+          isScoreOk(scoringProfile, { FF: F1, PF: F2, WF: F3, EF: F4 }, extras) ? 'Yes' : 'No',
         ];
       }),
     ];
@@ -1925,14 +4454,14 @@ export default function WellnessCalculator() {
   function downloadCSV() {
     const csv = getCurrentCSV();
     setCsvPreview(csv);
-    const ok = triggerCSVDownload(csv, 'wellness_results.csv');
+    const ok = triggerCSVDownload(csv, `wellness_results_${logDate}.csv`);
     if (!ok) setShowCsv(true);
   }
 
   // Auto-refresh CSV preview whenever inputs/log change
   useEffect(() => {
     setCsvPreview(getCurrentCSV());
-  }, [log, bmr, tdee, targetCalories]);
+  }, [log, logDate, bmr, tdee, targetCalories, bmrEquation, units, energyUnit]);
 
   console.log('Render - showResults:', showResults, 'results.length:', results.length, 'showWFMode:', showWFMode, 'showEFMode:', showEFMode);
 
@@ -1947,6 +4476,20 @@ export default function WellnessCalculator() {
             </h1>
           </div>
           <div className="flex items-center gap-2 text-sm">
+            <SyncStatus />
+            {onSignOut ? (
+              <>
+                <span className="hidden sm:inline text-slate-500 truncate max-w-[12rem]" title={user.email}>
+                  {user.email}
+                </span>
+                <button
+                  onClick={onSignOut}
+                  className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer bg-transparent border-0 p-0 mr-2"
+                >
+                  Sign out
+                </button>
+              </>
+            ) : null}
             <span className="text-slate-500">Units:</span>
             <div className="inline-flex overflow-hidden rounded-full border">
               <button
@@ -1954,7 +4497,7 @@ export default function WellnessCalculator() {
                   'px-3 py-1 ' +
                   (units === 'us' ? 'bg-slate-900 text-white' : 'bg-white text-black')
                 }
-                onClick={() => setUnits('us')}
+                onClick={() => switchUnits('us')}
               >
                 US
               </button>
@@ -1963,7 +4506,7 @@ export default function WellnessCalculator() {
                   'px-3 py-1 ' +
                   (units === 'metric' ? 'bg-slate-900 text-white' : 'bg-white text-black')
                 }
-                onClick={() => setUnits('metric')}
+                onClick={() => switchUnits('metric')}
               >
                 Metric
               </button>
@@ -2192,6 +4735,37 @@ export default function WellnessCalculator() {
                   <option value="gain20">Gain (+20%)</option>
                 </select>
               </div>
+              <div className="col-span-2">
+                <label
+                  htmlFor="intakeStandard"
+                  className="mb-1 block text-xs uppercase tracking-wide text-slate-500"
+                >
+                  Nutrient targets
+                </label>
+                <select
+                  id="intakeStandard"
+                  className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+                  value={intakeStandard}
+                  onChange={(e) => setIntakeStandard(e.target.value as IntakeStandard)}
+                >
+                  {INTAKE_STANDARDS.map((s) => (
+                    <option key={s.key} value={s.key}>
+                      {s.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            <div className="mt-4">
+              <h3 className="text-base font-medium mb-2">Measurements</h3>
+              <BodyMetricsPanel
+                entries={bodyMetrics}
+                units={units}
+                validateWeight={units === 'us' ? validateWeightLb : validateWeightKg}
+                onSave={saveBodyMetric}
+                onRemove={removeBodyMetric}
+              />
             </div>
 
             <div className="mt-4">
@@ -2205,7 +4779,7 @@ export default function WellnessCalculator() {
                       : 'bg-white border-slate-200 hover:border-slate-300'
                   }`}
                 >
-                  <Stat label="BMR" value={`${round(bmr, 0)} kcal`} />
+                  <Stat label="BMR" value={formatEnergy(bmr, energyUnit)} />
                 </button>
                 <button
                   onClick={() => setSelectedEnergy(selectedEnergy === 'tdee' ? null : 'tdee')}
@@ -2215,7 +4789,7 @@ export default function WellnessCalculator() {
                       : 'bg-white border-slate-200 hover:border-slate-300'
                   }`}
                 >
-                  <Stat label="TDEE" value={`${round(tdee, 0)} kcal`} />
+                  <Stat label="TDEE" value={formatEnergy(tdee, energyUnit)} />
                 </button>
                 <button
                   onClick={() => setSelectedEnergy(selectedEnergy === 'target' ? null : 'target')}
@@ -2227,13 +4801,92 @@ export default function WellnessCalculator() {
                 >
                   <Stat
                     label="Target"
-                    value={`${round(targetCalories, 0)} kcal`}
+                    value={formatEnergy(targetCalories, energyUnit)}
                   />
                 </button>
               </div>
               <p className="mt-1 text-xs text-slate-500">
-                BMR = Mifflin–St Jeor; Target = TDEE × goal.
+                BMR = {bmrEquationLabel(bmrUsed)}
+                {bmrUsed === 'katch_mcardle' || bmrUsed === 'cunningham'
+                  ? ` with ${round(safeNum(bodyFatPct), 1)}% body fat`
+                  : ''}
+                ; Target = TDEE × goal.
+                {bmrUsed !== bmrEquation &&
+                  ` ${bmrEquationLabel(bmrEquation)} needs a body-fat entry in Measurements.`}
               </p>
+              <div className="mt-3">
+                <label
+                  htmlFor="bmrEquation"
+                  className="mb-1 block text-xs uppercase tracking-wide text-slate-500"
+                >
+                  BMR equation
+                </label>
+                <select
+                  id="bmrEquation"
+                  className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+                  value={bmrEquation}
+                  onChange={(e) => setBmrEquation(e.target.value as BmrEquation)}
+                >
+                  {BMR_EQUATIONS.map((eq) => (
+                    <option key={eq.key} value={eq.key}>
+                      {eq.label}
+                      {eq.needsBodyFat ? ' (needs body fat)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="mt-3 grid grid-cols-3 gap-3">
+                <div className="col-span-2">
+                  <label
+                    htmlFor="energySource"
+                    className="mb-1 block text-xs uppercase tracking-wide text-slate-500"
+                  >
+                    Food calories from
+                  </label>
+                  <select
+                    id="energySource"
+                    className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+                    value={energySource}
+                    onChange={(e) => setEnergySource(e.target.value as EnergySource)}
+                  >
+                    {ENERGY_SOURCES.map((s) => (
+                      <option key={s.key} value={s.key}>
+                        {s.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label
+                    htmlFor="energyUnit"
+                    className="mb-1 block text-xs uppercase tracking-wide text-slate-500"
+                  >
+                    Energy unit
+                  </label>
+                  <select
+                    id="energyUnit"
+                    className="w-full rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm"
+                    value={energyUnit}
+                    onChange={(e) => setEnergyUnit(e.target.value as EnergyUnit)}
+                  >
+                    {ENERGY_UNITS.map((u) => (
+                      <option key={u.key} value={u.key}>
+                        {u.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-4">
+              <h3 className="text-base font-medium mb-2">Scoring</h3>
+              <ScoringSettings
+                profiles={scoringProfiles}
+                activeId={scoringProfile.id}
+                onChange={setScoringProfiles}
+                onSelect={setScoringProfileId}
+              />
             </div>
           </section>
 
@@ -2242,7 +4895,9 @@ export default function WellnessCalculator() {
             <section id="food-search" className="rounded-2xl border bg-white p-4 shadow-sm w-full min-w-0">
               <h2 className="text-lg font-medium mb-2">Food Search</h2>
               <p className="mb-3 text-xs text-slate-500">
-                Get a free USDA key:{' '}
+                {fdcProxyAvailable
+                  ? 'Searches use the shared USDA key. To use your own quota, add a free key:'
+                  : 'Get a free USDA key:'}{' '}
                 <a
                   className="underline cursor-pointer hover:text-blue-600"
                   href="https://fdc.nal.usda.gov/api-key-signup.html"
@@ -2258,12 +4913,12 @@ export default function WellnessCalculator() {
                     htmlFor="usdaKey"
                     className="mb-1 block text-xs uppercase tracking-wide text-slate-500"
                   >
-                    USDA API Key
+                    {fdcProxyAvailable ? 'USDA API Key (optional)' : 'USDA API Key'}
                   </label>
                   <input
                     id="usdaKey"
                     type="password"
-                    placeholder="USDA API Key"
+                    placeholder={fdcProxyAvailable ? 'Shared key' : 'USDA API Key'}
                     value={fdcApiKey}
                     onChange={(e) => {
                       setFdcApiKey(e.target.value);
@@ -2372,6 +5027,75 @@ export default function WellnessCalculator() {
                   Clear
                 </button>
               </div>
+              <div className="mt-2 flex flex-wrap items-center gap-2 text-xs">
+                <span className="text-slate-500">Source:</span>
+                <div className="inline-flex overflow-hidden rounded-full border">
+                  <button
+                    className={
+                      'px-3 py-1 ' +
+                      (searchSource === 'usda' ? 'bg-slate-900 text-white' : 'bg-white text-black')
+                    }
+                    onClick={() => setSearchSource('usda')}
+                  >
+                    USDA
+                  </button>
+                  <button
+                    className={
+                      'px-3 py-1 ' +
+                      (searchSource === 'local' ? 'bg-slate-900 text-white' : 'bg-white text-black')
+                    }
+                    onClick={() => setSearchSource('local')}
+                    title="Search foods imported from a USDA bulk download, without calling the USDA API"
+                  >
+                    Local DB ({localFoodCount.toLocaleString()})
+                  </button>
+                </div>
+                <label
+                  className={
+                    'cursor-pointer text-blue-600 hover:text-blue-700 ' +
+                    (importProgress ? 'pointer-events-none opacity-50' : '')
+                  }
+                  title="FoodData Central JSON files, or food.csv + nutrient.csv + food_nutrient.csv (and optionally branded_food.csv)"
+                >
+                  Import USDA download…
+                  <input
+                    type="file"
+                    accept=".json,.csv"
+                    multiple
+                    className="hidden"
+                    onChange={(e) => {
+                      const files = Array.from(e.target.files || []);
+                      e.target.value = '';
+                      importFoodFiles(files);
+                    }}
+                  />
+                </label>
+                {localFoodCount > 0 && !importProgress && (
+                  <button
+                    onClick={async () => {
+                      try {
+                        await clearLocalFoods();
+                        setLocalFoodCount(0);
+                        setImportMessage('Local food database cleared.');
+                      } catch (error) {
+                        console.error('Error clearing local foods:', error);
+                      }
+                    }}
+                    className="text-rose-600 hover:text-rose-700 cursor-pointer bg-transparent border-0 p-0"
+                  >
+                    Clear local DB
+                  </button>
+                )}
+              </div>
+              {importProgress && (
+                <p className="mt-1 text-xs text-slate-500">
+                  {importProgress.phase}
+                  {importProgress.foods > 0 && ` · ${importProgress.foods.toLocaleString()} foods`}
+                </p>
+              )}
+              {importMessage && !importProgress && (
+                <p className="mt-1 text-xs text-slate-500">{importMessage}</p>
+              )}
               {searchError && (
                 <p className="mt-2 text-sm text-rose-600">{searchError}</p>
               )}
@@ -2395,34 +5119,13 @@ export default function WellnessCalculator() {
                       <p className="text-sm text-slate-500">No custom foods yet.</p>
                     ) : (
                       paginatedCustomFoods.map((cf) => {
-                      const caloriesFromProtein = cf.protein * 4;
-                      const remainingCalories = Math.max(0, cf.calories - caloriesFromProtein);
-                      const derivedCarbs = remainingCalories / 4;
-
-                      const basePerG = {
-                        energy: cf.calories / cf.amount,
-                        protein: cf.protein / cf.amount,
-                        fat: 0,
-                        carbs: derivedCarbs / cf.amount,
-                        micros: { fiber: cf.fiber / cf.amount } as Record<string, number>,
-                      };
-                      const item = {
-                        id: `custom-${cf.id}`,
-                        name: cf.name,
-                        brand: cf.brand || 'Custom',
-                        serving: cf.amount,
-                        energy: cf.calories,
-                        protein: cf.protein,
-                        fat: 0,
-                        carbs: derivedCarbs,
-                        micros: { fiber: cf.fiber },
-                        _basePerG: basePerG,
-                        customFoodId: cf.id,
-                      };
-                      const VFF = ff(cf.calories, cf.fiber);
-                      const VPF = pf(cf.calories, cf.protein);
+                      const item = customFoodToItem(cf);
+                      const kc = itemKcal(item, energySource);
+                      const fiber = safeNum(item.micros.fiber);
+                      const VFF = ff(kc, fiber);
+                      const VPF = pf(kc, item.protein);
                       const VWF = wf(VFF, VPF);
-                      const VEF = ef(cf.calories, cf.amount);
+                      const VEF = ef(kc, item.serving);
 
                       return (
                         <div
@@ -2434,17 +5137,19 @@ export default function WellnessCalculator() {
                               {cf.name}
                             </div>
                             <div className="overflow-hidden text-ellipsis whitespace-nowrap text-xs text-slate-500 capitalize">
-                              {cf.brand || 'Custom'}
+                              {item.brand}
                             </div>
                             <div className="mt-1 text-xs text-slate-600">
-                              {cf.amount} g → {round(cf.calories, 0)} kcal • P{' '}
-                              {round(cf.protein, 1)} • Fiber {round(cf.fiber, 1)}
+                              {formatMass(item.serving, units)} → {formatEnergy(kc, energyUnit)} • P{' '}
+                              {round(item.protein, 1)} • Fiber {round(fiber, 1)}
                             </div>
                             <div className="mt-1 flex items-center gap-1">
-                              <BadgeHalo label="FF" value={VFF} threshold={50} compact />
-                              <BadgeHalo label="PF" value={VPF} threshold={30} compact />
-                              <BadgeHalo label="WF" value={VWF} threshold={80} compact />
-                              <BadgeHalo label="EF" value={VEF} threshold={1} compact />
+                              <FactorBadges
+                                profile={scoringProfile}
+                                values={{ FF: VFF, PF: VPF, WF: VWF, EF: VEF }}
+                                extras={extraScores(scoringProfile, kc, item.micros)}
+                                compact
+                              />
                               <button
                                 onClick={async () => {
                                   try {
@@ -2453,11 +5158,11 @@ export default function WellnessCalculator() {
                                     const isFavorite = favoriteCustomFoodIds.has(customFoodId);
 
                                     if (isFavorite) {
-                                      await supabase
-                                        .from('favorites')
-                                        .delete()
-                                        .eq('user_id', DEFAULT_USER_ID)
-                                        .eq('custom_food_id', customFoodId);
+                                      await mutate({
+                                        table: 'favorites',
+                                        op: 'delete',
+                                        filter: { user_id: userId, custom_food_id: customFoodId },
+                                      });
                                       setFavorites((prev) => {
                                         const next = new Set(prev);
                                         next.delete(normalizedName);
@@ -2469,13 +5174,15 @@ export default function WellnessCalculator() {
                                         return next;
                                       });
                                     } else {
-                                      await supabase
-                                        .from('favorites')
-                                        .insert({
-                                          user_id: DEFAULT_USER_ID,
+                                      await mutate({
+                                        table: 'favorites',
+                                        op: 'insert',
+                                        rows: [{
+                                          user_id: userId,
                                           food_name: normalizedName,
                                           custom_food_id: customFoodId,
-                                        });
+                                        }],
+                                      });
                                       setFavorites((prev) => new Set([...prev, normalizedName]));
                                       setFavoriteCustomFoodIds((prev) => new Set([...prev, customFoodId]));
                                     }
@@ -2499,6 +5206,12 @@ export default function WellnessCalculator() {
                             >
                               Add
                             </button>
+                            <button
+                              onClick={() => editCustomFood(cf)}
+                              className="text-xs text-slate-500 transition-colors hover:text-slate-900 cursor-pointer bg-transparent border-0 p-0"
+                            >
+                              Edit
+                            </button>
                             <button
                               onClick={() => {
                                 setCustomFoodToRemove(cf);
@@ -2566,6 +5279,19 @@ export default function WellnessCalculator() {
               {showFavoritesOnly && (
                 <div className="mt-4" id="favorites-section" key={`favorites-${cacheVersion}`}>
                   <h3 className="text-sm font-medium text-slate-700 mb-2">Favorites</h3>
+                  {favoriteHydration && (
+                    <div className="mb-2">
+                      <p className="text-xs text-slate-500">
+                        Loading favorites… {favoriteHydration.done} of {favoriteHydration.total}
+                      </p>
+                      <div className="mt-1 h-1 w-full overflow-hidden rounded-full bg-slate-100">
+                        <div
+                          className="h-full bg-slate-400 transition-all"
+                          style={{ width: `${(favoriteHydration.done / favoriteHydration.total) * 100}%` }}
+                        />
+                      </div>
+                    </div>
+                  )}
                   <div className="space-y-2 overflow-hidden">
                     {(() => {
                       console.log('Favorites check:', { fdcSize: favoriteFdcIds.size, customSize: favoriteCustomFoodIds.size });
@@ -2580,33 +5306,13 @@ export default function WellnessCalculator() {
                       const customFood = customFoods.find(cf => cf.id === customFoodId);
 
                       if (customFood) {
-                        const caloriesFromProtein = customFood.protein * 4;
-                        const remainingCalories = Math.max(0, customFood.calories - caloriesFromProtein);
-                        const derivedCarbs = remainingCalories / 4;
-                        const basePerG = {
-                          energy: customFood.calories / customFood.amount,
-                          protein: customFood.protein / customFood.amount,
-                          fat: 0,
-                          carbs: derivedCarbs / customFood.amount,
-                          micros: { fiber: customFood.fiber / customFood.amount } as Record<string, number>,
-                        };
-                        const item = {
-                          id: `custom-${customFood.id}`,
-                          name: customFood.name,
-                          brand: customFood.brand || 'Custom',
-                          serving: customFood.amount,
-                          energy: customFood.calories,
-                          protein: customFood.protein,
-                          fat: 0,
-                          carbs: derivedCarbs,
-                          micros: { fiber: customFood.fiber },
-                          _basePerG: basePerG,
-                          customFoodId: customFood.id,
-                        };
-                        const VFF = ff(customFood.calories, customFood.fiber);
-                        const VPF = pf(customFood.calories, customFood.protein);
+                        const item = customFoodToItem(customFood);
+                        const kc = itemKcal(item, energySource);
+                        const fiber = safeNum(item.micros.fiber);
+                        const VFF = ff(kc, fiber);
+                        const VPF = pf(kc, item.protein);
                         const VWF = wf(VFF, VPF);
-                        const VEF = ef(customFood.calories, customFood.amount);
+                        const VEF = ef(kc, item.serving);
 
                         return (
                           <div
@@ -2618,25 +5324,27 @@ export default function WellnessCalculator() {
                                 {customFood.name}
                               </div>
                               <div className="overflow-hidden text-ellipsis whitespace-nowrap text-xs text-slate-500 capitalize">
-                                {customFood.brand || 'Custom'}
+                                {item.brand}
                               </div>
                               <div className="mt-1 text-xs text-slate-600">
-                                {customFood.amount} g → {round(customFood.calories, 0)} kcal • P{' '}
-                                {round(customFood.protein, 1)} • Fiber {round(customFood.fiber, 1)}
+                                {formatMass(item.serving, units)} → {formatEnergy(kc, energyUnit)} • P{' '}
+                                {round(item.protein, 1)} • Fiber {round(fiber, 1)}
                               </div>
                               <div className="mt-1 flex items-center gap-1">
-                                <BadgeHalo label="FF" value={VFF} threshold={50} compact />
-                                <BadgeHalo label="PF" value={VPF} threshold={30} compact />
-                                <BadgeHalo label="WF" value={VWF} threshold={80} compact />
-                                <BadgeHalo label="EF" value={VEF} threshold={1} compact />
+                                <FactorBadges
+                                  profile={scoringProfile}
+                                  values={{ FF: VFF, PF: VPF, WF: VWF, EF: VEF }}
+                                  extras={extraScores(scoringProfile, kc, item.micros)}
+                                  compact
+                                />
                                 <button
                                   onClick={async () => {
                                     try {
-                                      await supabase
-                                        .from('favorites')
-                                        .delete()
-                                        .eq('user_id', DEFAULT_USER_ID)
-                                        .eq('custom_food_id', customFoodId);
+                                      await mutate({
+                                        table: 'favorites',
+                                        op: 'delete',
+                                        filter: { user_id: userId, custom_food_id: customFoodId },
+                                      });
                                       setFavorites((prev) => {
                                         const next = new Set(prev);
                                         next.delete(customFood.name.toLowerCase());
@@ -2679,11 +5387,12 @@ export default function WellnessCalculator() {
                       if (!favoriteFood) return null;
 
                       const n = safeParse(favoriteFood, 100);
+                        const kc = energyKcal(n, energySource, n.factors);
                         const fiber = safeNum(n.micros?.fiber);
-                        const VFF = ff(n.energy, fiber);
-                        const VPF = pf(n.energy, n.protein);
+                        const VFF = ff(kc, fiber);
+                        const VPF = pf(kc, n.protein);
                         const VWF = wf(VFF, VPF);
-                        const VEF = ef(n.energy, 100);
+                        const VEF = ef(kc, 100);
 
                         return (
                           <div
@@ -2700,22 +5409,24 @@ export default function WellnessCalculator() {
                                 )}
                               </div>
                               <div className="mt-1 text-xs text-slate-600">
-                                100 g → {round(n.energy, 0)} kcal • P{' '}
+                                {formatMass(100, units)} → {formatEnergy(kc, energyUnit)} • P{' '}
                                 {round(n.protein, 1)} • Fiber {round(fiber, 1)}
                               </div>
                               <div className="mt-1 flex items-center gap-1">
-                                <BadgeHalo label="FF" value={VFF} threshold={50} compact />
-                                <BadgeHalo label="PF" value={VPF} threshold={30} compact />
-                                <BadgeHalo label="WF" value={VWF} threshold={80} compact />
-                                <BadgeHalo label="EF" value={VEF} threshold={1} compact />
+                                <FactorBadges
+                                  profile={scoringProfile}
+                                  values={{ FF: VFF, PF: VPF, WF: VWF, EF: VEF }}
+                                  extras={extraScores(scoringProfile, kc, n.micros)}
+                                  compact
+                                />
                                 <button
                                   onClick={async () => {
                                     try {
-                                      await supabase
-                                        .from('favorites')
-                                        .delete()
-                                        .eq('user_id', DEFAULT_USER_ID)
-                                        .eq('fdc_id', fdcId);
+                                      await mutate({
+                                        table: 'favorites',
+                                        op: 'delete',
+                                        filter: { user_id: userId, fdc_id: fdcId },
+                                      });
                                       const normalizedName = (favoriteFood?.description || favoriteFood?.lowercaseDescription || '').toLowerCase();
                                       setFavorites((prev) => {
                                         const next = new Set(prev);
@@ -2816,11 +5527,12 @@ export default function WellnessCalculator() {
                     const fdcId = f?.fdcId || f?.FdcId || null;
                     const isFavorite = fdcId ? favoriteFdcIds.has(fdcId) : false;
 
+                    const kc = energyKcal(n, energySource, n.factors);
                     const fiber = safeNum(n.micros?.fiber);
-                    const VFF = ff(n.energy, fiber);
-                    const VPF = pf(n.energy, n.protein);
+                    const VFF = ff(kc, fiber);
+                    const VPF = pf(kc, n.protein);
                     const VWF = wf(VFF, VPF);
-                    const VEF = ef(n.energy, 100);
+                    const VEF = ef(kc, 100);
 
                     const toggleFavorite = async () => {
                       try {
@@ -2829,11 +5541,11 @@ export default function WellnessCalculator() {
                           return;
                         }
                         if (isFavorite) {
-                          await supabase
-                            .from('favorites')
-                            .delete()
-                            .eq('user_id', DEFAULT_USER_ID)
-                            .eq('fdc_id', fdcId);
+                          await mutate({
+                            table: 'favorites',
+                            op: 'delete',
+                            filter: { user_id: userId, fdc_id: fdcId },
+                          });
                           setFavorites((prev) => {
                             const next = new Set(prev);
                             next.delete(normalizedName);
@@ -2846,15 +5558,19 @@ export default function WellnessCalculator() {
                           });
                         } else {
                           console.log('Saving favorite:', { normalizedName, fdcId, food: f });
-                          await supabase
-                            .from('favorites')
-                            .insert({
-                              user_id: DEFAULT_USER_ID,
+                          await mutate({
+                            table: 'favorites',
+                            op: 'insert',
+                            rows: [{
+                              user_id: userId,
                               food_name: normalizedName,
                               fdc_id: fdcId,
-                            });
+                            }],
+                          });
                           setFavorites((prev) => new Set([...prev, normalizedName]));
                           setFavoriteFdcIds((prev) => new Set([...prev, fdcId]));
+                          // A ranked result still waiting for its full document is not worth caching
+                          if (f.foodNutrients) cacheFood(fdcId, f);
                           setFavoriteFoodCache(prev => {
                             const newMap = new Map(prev);
                             newMap.set(fdcId, f);
@@ -2881,14 +5597,16 @@ export default function WellnessCalculator() {
                               )}
                             </div>
                             <div className="mt-1 text-xs text-slate-600">
-                              100 g → {round(n.energy, 0)} kcal • P{' '}
+                              {formatMass(100, units)} → {formatEnergy(kc, energyUnit)} • P{' '}
                               {round(n.protein, 1)} • Fiber {round(fiber, 1)}
                             </div>
                             <div className="mt-1 flex items-center gap-1">
-                              <BadgeHalo label="FF" value={VFF} threshold={50} compact />
-                              <BadgeHalo label="PF" value={VPF} threshold={30} compact />
-                              <BadgeHalo label="WF" value={VWF} threshold={80} compact />
-                              <BadgeHalo label="EF" value={VEF} threshold={1} compact />
+                              <FactorBadges
+                                profile={scoringProfile}
+                                values={{ FF: VFF, PF: VPF, WF: VWF, EF: VEF }}
+                                extras={extraScores(scoringProfile, kc, n.micros)}
+                                compact
+                              />
                               <button
                                 onClick={toggleFavorite}
                                 className="text-lg transition-colors cursor-pointer bg-transparent border-0 p-0"
@@ -2915,12 +5633,7 @@ export default function WellnessCalculator() {
                         <button
                           onClick={async (e) => {
                             e.preventDefault();
-                            const newPage = wfPage - 1;
-                            const itemsPerPageWF = 10;
-                            const startIndex = (newPage - 1) * itemsPerPageWF;
-                            const endIndex = startIndex + itemsPerPageWF;
-                            setResults(wfResults.slice(startIndex, endIndex));
-                            setWfPage(newPage);
+                            await searchFoodsByWF(wfPage - 1);
                             setTimeout(() => {
                               const foodSearchSection = document.getElementById('food-search');
                               if (foodSearchSection) {
@@ -2939,12 +5652,7 @@ export default function WellnessCalculator() {
                         <button
                           onClick={async (e) => {
                             e.preventDefault();
-                            const newPage = wfPage + 1;
-                            const itemsPerPageWF = 10;
-                            const startIndex = (newPage - 1) * itemsPerPageWF;
-                            const endIndex = startIndex + itemsPerPageWF;
-                            setResults(wfResults.slice(startIndex, endIndex));
-                            setWfPage(newPage);
+                            await searchFoodsByWF(wfPage + 1);
                             setTimeout(() => {
                               const foodSearchSection = document.getElementById('food-search');
                               if (foodSearchSection) {
@@ -2964,12 +5672,7 @@ export default function WellnessCalculator() {
                         <button
                           onClick={async (e) => {
                             e.preventDefault();
-                            const newPage = efPage - 1;
-                            const itemsPerPageEF = 10;
-                            const startIndex = (newPage - 1) * itemsPerPageEF;
-                            const endIndex = startIndex + itemsPerPageEF;
-                            setResults(efResults.slice(startIndex, endIndex));
-                            setEfPage(newPage);
+                            await searchFoodsByEF(efPage - 1);
                             setTimeout(() => {
                               const foodSearchSection = document.getElementById('food-search');
                               if (foodSearchSection) {
@@ -2988,12 +5691,7 @@ export default function WellnessCalculator() {
                         <button
                           onClick={async (e) => {
                             e.preventDefault();
-                            const newPage = efPage + 1;
-                            const itemsPerPageEF = 10;
-                            const startIndex = (newPage - 1) * itemsPerPageEF;
-                            const endIndex = startIndex + itemsPerPageEF;
-                            setResults(efResults.slice(startIndex, endIndex));
-                            setEfPage(newPage);
+                            await searchFoodsByEF(efPage + 1);
                             setTimeout(() => {
                               const foodSearchSection = document.getElementById('food-search');
                               if (foodSearchSection) {
@@ -3053,7 +5751,45 @@ export default function WellnessCalculator() {
 
             {/* Food Log */}
             <section className="rounded-2xl border bg-white p-4 shadow-sm mt-6 w-full min-w-0">
-              <h2 className="mb-1 text-lg font-medium">Food Log</h2>
+              <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+                <h2 className="text-lg font-medium">Food Log</h2>
+                <div className="flex items-center gap-2 text-sm">
+                  <button
+                    onClick={() => setLogDate((d) => shiftDateKey(d, -1))}
+                    className="px-2 py-1 rounded-lg bg-slate-100 text-blue-600 hover:bg-slate-200"
+                    title="Previous day"
+                  >
+                    ‹
+                  </button>
+                  <input
+                    id="logDate"
+                    type="date"
+                    value={logDate}
+                    onChange={(e) => {
+                      if (e.target.value) setLogDate(e.target.value);
+                    }}
+                    className="rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-2 py-1 text-sm shadow-sm"
+                  />
+                  <button
+                    onClick={() => setLogDate((d) => shiftDateKey(d, 1))}
+                    className="px-2 py-1 rounded-lg bg-slate-100 text-blue-600 hover:bg-slate-200"
+                    title="Next day"
+                  >
+                    ›
+                  </button>
+                  {logDate !== toDateKey(new Date()) && (
+                    <button
+                      onClick={() => setLogDate(toDateKey(new Date()))}
+                      className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer bg-transparent border-0 p-0"
+                    >
+                      Today
+                    </button>
+                  )}
+                </div>
+              </div>
+              <div className="mb-2 text-sm font-medium text-slate-700">
+                {formatDateKey(logDate)}
+              </div>
               <div className="mb-2 text-[12px] uppercase tracking-wide text-slate-500">
                 Aggregate
               </div>
@@ -3061,13 +5797,13 @@ export default function WellnessCalculator() {
               <div className="mb-2 grid grid-cols-4 gap-2 text-[13px]">
                 <Stat
                   label="Amount"
-                  value={`${round(totals.mass, 1)}`}
-                  tooltip="(g)"
+                  value={`${round(massValue(totals.mass, units), 1)}`}
+                  tooltip={`(${massUnit(units)})`}
                 />
                 <Stat
                   label="Calories"
-                  value={`${round(totals.cal, 0)}`}
-                  tooltip="(kcal)"
+                  value={`${round(energyValue(totals.cal, energyUnit), 0)}`}
+                  tooltip={`(${energyLabel(energyUnit)})`}
                   valueColor={
                     selectedEnergy &&
                     ((selectedEnergy === 'bmr' && totals.cal > bmr) ||
@@ -3079,9 +5815,10 @@ export default function WellnessCalculator() {
                   secondaryLine={
                     selectedEnergy ? (
                       <div className="text-[11px] text-slate-400 mt-0.5">
-                        {selectedEnergy === 'bmr' && `/ ${round(bmr, 0)}`}
-                        {selectedEnergy === 'tdee' && `/ ${round(tdee, 0)}`}
-                        {selectedEnergy === 'target' && `/ ${round(targetCalories, 0)}`}
+                        {selectedEnergy === 'bmr' && `/ ${round(energyValue(bmr, energyUnit), 0)}`}
+                        {selectedEnergy === 'tdee' && `/ ${round(energyValue(tdee, energyUnit), 0)}`}
+                        {selectedEnergy === 'target' &&
+                          `/ ${round(energyValue(targetCalories, energyUnit), 0)}`}
                       </div>
                     ) : undefined
                   }
@@ -3100,69 +5837,176 @@ export default function WellnessCalculator() {
 
               <div
                 className={`mb-0 grid grid-cols-4 gap-2 text-[11px] rounded-xl p-2 ${
-                  TWF < 80 ? 'bg-emerald-100' : 'bg-rose-100'
+                  dayOk ? 'bg-emerald-100' : 'bg-rose-100'
                 }`}
               >
-                <BadgeHalo
-                  label="FF (Fiber Factor)"
-                  value={TFF}
-                  threshold={50}
-                />
-                <BadgeHalo
-                  label="PF (Protein Factor)"
-                  value={TPF}
-                  threshold={30}
-                />
-                <BadgeHalo
-                  label="WF (Wellness Factor)"
-                  value={TWF}
-                  threshold={80}
-                />
-                <BadgeHalo
-                  label="EF (Energy Factor)"
-                  value={TEF}
-                  threshold={1}
-                />
+                <FactorBadges profile={scoringProfile} values={totals} extras={dayExtras} long />
               </div>
+              <div className="mt-2 grid grid-cols-3 gap-2 text-[11px]">
+                {LIMITED_NUTRIENTS.map((key) => {
+                  const def = NUTRIENTS.find((n) => n.key === key)!;
+                  const limit = intakes[key]?.limit;
+                  if (limit === undefined) return null;
+                  return (
+                    <LimitBadge
+                      key={key}
+                      label={def.label}
+                      unit={def.unit}
+                      value={safeNum(dayMicros[key])}
+                      limit={limit}
+                    />
+                  );
+                })}
+              </div>
+              {log.length > 0 && !(TWF < scoringProfile.thresholds.WF) && (
+                <FixMyDay
+                  candidates={fixCandidates}
+                  log={log}
+                  totals={totals}
+                  targetKcal={intakeCalories}
+                  energySource={energySource}
+                  profile={scoringProfile}
+                  display={display}
+                  onAdd={(item) => insertLogItem({ ...item, meal: activeMeal })}
+                  onSwap={(out, item) => {
+                    removeLogItem(out.id);
+                    insertLogItem({ ...item, meal: out.meal });
+                  }}
+                />
+              )}
+              <NutrientPanel micros={dayMicros} intakes={intakes} label="nutrients for the day" />
 
-              <h3
-                id="foods-anchor"
-                className="mt-4 text-[12px] uppercase tracking-wide text-slate-500"
-              >
-                Foods
-              </h3>
-              <div className="grid gap-2 grid-cols-1 mt-2">
-                {log.map((x) => (
-                  <FoodCard
-                    key={x.id}
-                    item={x}
-                    setLog={setLog}
-                    setFavorites={setFavorites}
-                    favoriteFdcIds={favoriteFdcIds}
-                    setFavoriteFdcIds={setFavoriteFdcIds}
-                    favoriteCustomFoodIds={favoriteCustomFoodIds}
-                    setFavoriteCustomFoodIds={setFavoriteCustomFoodIds}
-                    setFavoriteFoodCache={setFavoriteFoodCache}
-                  />
-                ))}
+              <div className="mt-4 flex flex-wrap items-center justify-between gap-2">
+                <h3
+                  id="foods-anchor"
+                  className="text-[12px] uppercase tracking-wide text-slate-500"
+                >
+                  Foods
+                </h3>
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="text-slate-500">Add to:</span>
+                  <div className="inline-flex overflow-hidden rounded-full border">
+                    {MEALS.map((m) => (
+                      <button
+                        key={m.key}
+                        className={
+                          'px-2.5 py-1 ' +
+                          (activeMeal === m.key ? 'bg-slate-900 text-white' : 'bg-white text-black')
+                        }
+                        onClick={() => setActiveMeal(m.key)}
+                      >
+                        {m.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
               </div>
-              {log.length === 0 && (
+              {mealGroups
+                .filter((g) => g.items.length > 0)
+                .map((g) => (
+                  <div key={g.key} id={`meal-${g.key}`} className="mt-3">
+                    <div className="mb-2 flex items-baseline justify-between">
+                      <h4 className="text-sm font-medium text-slate-700">{g.label}</h4>
+                      <span className="text-[11px] text-slate-500">
+                        {g.items.length} {g.items.length === 1 ? 'item' : 'items'}
+                      </span>
+                    </div>
+                    <MealTotals totals={g.totals} profile={scoringProfile} display={display} />
+                    <div className="grid gap-2 grid-cols-1 mt-2">
+                      {g.items.map((x) => (
+                        <FoodCard
+                          key={x.id}
+                          item={x}
+                          userId={userId}
+                          onUpdate={updateLogItem}
+                          onRemove={removeLogItem}
+                          setFavorites={setFavorites}
+                          favoriteFdcIds={favoriteFdcIds}
+                          setFavoriteFdcIds={setFavoriteFdcIds}
+                          favoriteCustomFoodIds={favoriteCustomFoodIds}
+                          setFavoriteCustomFoodIds={setFavoriteCustomFoodIds}
+                          setFavoriteFoodCache={setFavoriteFoodCache}
+                          energySource={energySource}
+                          profile={scoringProfile}
+                          display={display}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              {log.length === 0 && !logLoadFailed && (
                 <p className="text-sm text-slate-500">
-                  Nothing logged yet. Add foods from the search above.
+                  {logReady
+                    ? 'Nothing logged for this day yet. Add foods from the search above.'
+                    : 'Loading…'}
                 </p>
               )}
-              {log.length > 0 && (
-                <div className="mt-2 text-right">
+              {logLoadFailed && (
+                <div className="flex items-start justify-between gap-2 rounded-xl border border-rose-300 bg-rose-50 p-2 text-sm text-rose-700">
+                  <span>Could not load this day's log.</span>
+                  <button
+                    onClick={() => setLogReload((n) => n + 1)}
+                    className="text-xs text-rose-700 hover:text-rose-800 cursor-pointer bg-transparent border-0 p-0"
+                  >
+                    Retry
+                  </button>
+                </div>
+              )}
+              {recipeCandidates.length > 0 && (
+                <div className="mt-2 flex justify-end gap-3">
                   <button
-                    onClick={() => setLog([])}
+                    onClick={() => setShowRecipeBuilder(true)}
                     className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer bg-transparent border-0 p-0"
                   >
-                    Clear log
+                    {log.length > 0 ? 'Save as recipe' : 'New recipe'}
+                  </button>
+                  {log.length > 0 && (
+                    <button
+                      onClick={clearLogDay}
+                      className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer bg-transparent border-0 p-0"
+                    >
+                      Clear day
+                    </button>
+                  )}
+                </div>
+              )}
+              {logError && (
+                <div className="mt-2 flex items-start justify-between gap-2 rounded-xl border border-rose-300 bg-rose-50 p-2 text-sm text-rose-700">
+                  <span>{logError}</span>
+                  <button
+                    onClick={() => setLogError('')}
+                    className="text-xs text-rose-700 hover:text-rose-800 cursor-pointer bg-transparent border-0 p-0"
+                  >
+                    Dismiss
                   </button>
                 </div>
               )}
             </section>
 
+            {/* Day Planner */}
+            <section className="mt-6 rounded-2xl border bg-white p-4 shadow-sm w-full min-w-0">
+              <div className="mb-2 flex items-center justify-between">
+                <h2 className="text-lg font-medium">Day Planner</h2>
+                <button
+                  onClick={() => setShowPlanner((v) => !v)}
+                  className="text-sm text-blue-600 hover:text-blue-700"
+                >
+                  {showPlanner ? 'Hide' : 'Show'}
+                </button>
+              </div>
+              {showPlanner && (
+                <MealPlanner
+                  candidates={planCandidates}
+                  targetKcal={Math.max(0, intakeCalories - totals.cal)}
+                  energySource={energySource}
+                  profile={scoringProfile}
+                  display={display}
+                  defaultMeal={activeMeal}
+                  onAdd={(items) => items.forEach(insertLogItem)}
+                />
+              )}
+            </section>
+
             {/* Export */}
             <section className="mt-6 rounded-2xl border bg-white p-4 shadow-sm w-full min-w-0">
               <div className="mb-2 flex items-center justify-between">
@@ -3188,10 +6032,10 @@ export default function WellnessCalculator() {
                   type="button"
                   onClick={() => {
                     const rows = buildCsvRows();
-                    const ok = downloadExcelXlsx(rows);
+                    const ok = downloadExcelXlsx(rows, `wellness_results_${logDate}.xlsx`);
                     if (!ok) {
                       const csv = getCurrentCSV();
-                      triggerCSVDownload(csv, 'wellness_results.csv');
+                      triggerCSVDownload(csv, `wellness_results_${logDate}.csv`);
                     }
                   }}
                   className="rounded-xl bg-slate-900 px-3 py-2 text-white hover:bg-slate-800 focus:outline-none focus:ring-0"
@@ -3255,6 +6099,16 @@ export default function WellnessCalculator() {
           </div>
         </div>
 
+        {showRecipeBuilder && recipeCandidates.length > 0 && (
+          <RecipeBuilder
+            candidates={recipeCandidates}
+            energySource={energySource}
+            display={display}
+            onSave={saveRecipe}
+            onClose={() => setShowRecipeBuilder(false)}
+          />
+        )}
+
         {showRemoveCustomFoodModal && (
           <div
             className="fixed inset-0 z-50 flex items-center justify-center bg-black/50"
@@ -3279,31 +6133,37 @@ export default function WellnessCalculator() {
                   onClick={async () => {
                     if (!customFoodToRemove) return;
                     try {
-                      await supabase
-                        .from('custom_foods')
-                        .delete()
-                        .eq('id', customFoodToRemove.id)
-                        .eq('user_id', DEFAULT_USER_ID);
-
-                      await supabase
-                        .from('food_log')
-                        .delete()
-                        .eq('user_id', DEFAULT_USER_ID)
-                        .ilike('name', customFoodToRemove.name);
-
-                      await supabase
-                        .from('favorites')
-                        .delete()
-                        .eq('user_id', DEFAULT_USER_ID)
-                        .eq('food_name', customFoodToRemove.name.toLowerCase());
+                      const { error } = await mutate({
+                        table: 'custom_foods',
+                        op: 'delete',
+                        filter: { id: customFoodToRemove.id, user_id: userId },
+                      });
+                      if (error) throw error;
+
+                      await mutate({
+                        table: 'food_log',
+                        op: 'delete',
+                        filter: { user_id: userId, custom_food_id: customFoodToRemove.id },
+                      });
+
+                      await mutate({
+                        table: 'favorites',
+                        op: 'delete',
+                        filter: { user_id: userId, custom_food_id: customFoodToRemove.id },
+                      });
 
                       setCustomFoods((prev) => prev.filter((food) => food.id !== customFoodToRemove.id));
-                      setLog((prev) => prev.filter((item) => item.name.toLowerCase() !== customFoodToRemove.name.toLowerCase()));
+                      setLog((prev) => prev.filter((item) => item.customFoodId !== customFoodToRemove.id));
                       setFavorites((prev) => {
                         const next = new Set(prev);
                         next.delete(customFoodToRemove.name.toLowerCase());
                         return next;
                       });
+                      setFavoriteCustomFoodIds((prev) => {
+                        const next = new Set(prev);
+                        next.delete(customFoodToRemove.id);
+                        return next;
+                      });
                       setShowRemoveCustomFoodModal(false);
                       setCustomFoodToRemove(null);
                     } catch (error) {
@@ -3328,7 +6188,9 @@ export default function WellnessCalculator() {
               className="w-full max-w-md rounded-2xl border bg-white p-6 shadow-xl"
               onClick={(e) => e.stopPropagation()}
             >
-              <h2 className="mb-4 text-xl font-semibold">Add Custom Food</h2>
+              <h2 className="mb-4 text-xl font-semibold">
+                {editingCustomFood ? 'Edit Custom Food' : 'Add Custom Food'}
+              </h2>
 
               <div className="space-y-3">
                 <div className="grid grid-cols-2 gap-3">
@@ -3383,7 +6245,7 @@ export default function WellnessCalculator() {
                       htmlFor="customFoodAmount"
                       className="mb-1 block text-xs uppercase tracking-wide text-slate-500"
                     >
-                      Amount (g)
+                      Amount ({massUnit(units)})
                     </label>
                     <input
                       id="customFoodAmount"
@@ -3398,7 +6260,7 @@ export default function WellnessCalculator() {
                       className={`w-full rounded-xl border ${
                         validationErrors.customFoodAmount ? 'border-rose-500' : 'border-slate-400'
                       } focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm`}
-                      placeholder="100"
+                      placeholder={defaultCustomFoodAmount()}
                     />
                     {validationErrors.customFoodAmount && (
                       <p className="mt-1 text-xs text-rose-600">{validationErrors.customFoodAmount}</p>
@@ -3410,7 +6272,7 @@ export default function WellnessCalculator() {
                       htmlFor="customFoodCalories"
                       className="mb-1 block text-xs uppercase tracking-wide text-slate-500"
                     >
-                      Calories (kcal)
+                      Calories ({energyLabel(energyUnit)})
                     </label>
                     <input
                       id="customFoodCalories"
@@ -3485,6 +6347,112 @@ export default function WellnessCalculator() {
                       <p className="mt-1 text-xs text-rose-600">{validationErrors.customFoodProtein}</p>
                     )}
                   </div>
+
+                  <div>
+                    <label
+                      htmlFor="customFoodFat"
+                      className="mb-1 block text-xs uppercase tracking-wide text-slate-500"
+                    >
+                      Fat (g)
+                    </label>
+                    <input
+                      id="customFoodFat"
+                      type="number"
+                      value={customFoodFat}
+                      onChange={(e) => {
+                        setCustomFoodFat(e.target.value);
+                        if (validationErrors.customFoodFat) {
+                          setValidationError('customFoodFat', '');
+                        }
+                      }}
+                      className={`w-full rounded-xl border ${
+                        validationErrors.customFoodFat ? 'border-rose-500' : 'border-slate-400'
+                      } focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm`}
+                      placeholder="Optional"
+                    />
+                    {validationErrors.customFoodFat && (
+                      <p className="mt-1 text-xs text-rose-600">{validationErrors.customFoodFat}</p>
+                    )}
+                  </div>
+
+                  <div>
+                    <label
+                      htmlFor="customFoodCarbs"
+                      className="mb-1 block text-xs uppercase tracking-wide text-slate-500"
+                    >
+                      Carbs (g)
+                    </label>
+                    <input
+                      id="customFoodCarbs"
+                      type="number"
+                      value={customFoodCarbs}
+                      onChange={(e) => {
+                        setCustomFoodCarbs(e.target.value);
+                        if (validationErrors.customFoodCarbs) {
+                          setValidationError('customFoodCarbs', '');
+                        }
+                      }}
+                      className={`w-full rounded-xl border ${
+                        validationErrors.customFoodCarbs ? 'border-rose-500' : 'border-slate-400'
+                      } focus:border-slate-500 focus:ring-0 px-3 py-2 text-sm shadow-sm`}
+                      placeholder="Optional"
+                    />
+                    {validationErrors.customFoodCarbs && (
+                      <p className="mt-1 text-xs text-rose-600">{validationErrors.customFoodCarbs}</p>
+                    )}
+                  </div>
+                </div>
+                <p className="text-xs text-slate-500">
+                  Leave fat and carbs blank to count the calories protein leaves as carbs.
+                </p>
+
+                <div>
+                  <button
+                    type="button"
+                    onClick={() => setShowCustomFoodMicros((v) => !v)}
+                    className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer bg-transparent border-0 p-0"
+                  >
+                    {showCustomFoodMicros ? 'Hide' : 'Show'} more nutrients
+                  </button>
+                  {showCustomFoodMicros && (
+                    <div className="mt-2 max-h-60 space-y-3 overflow-y-auto">
+                      {NUTRIENT_GROUPS.map((g) => {
+                        const defs = NUTRIENTS.filter((n) => n.group === g.key && n.key !== 'fiber');
+                        if (defs.length === 0) return null;
+                        return (
+                          <div key={g.key}>
+                            <div className="mb-1 text-[10px] uppercase tracking-wide text-slate-500">
+                              {g.label}
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                              {defs.map((n) => (
+                                <label key={n.key} className="flex items-center gap-2 text-xs">
+                                  <span className="min-w-0 flex-1 truncate">
+                                    {n.label} ({n.unit})
+                                  </span>
+                                  <input
+                                    type="number"
+                                    min="0"
+                                    value={customFoodMicros[n.key] ?? ''}
+                                    onChange={(e) => {
+                                      setCustomFoodMicros((prev) => ({ ...prev, [n.key]: e.target.value }));
+                                      if (validationErrors.customFoodMicros) {
+                                        setValidationError('customFoodMicros', '');
+                                      }
+                                    }}
+                                    className="w-20 rounded-xl border border-slate-400 focus:border-slate-500 focus:ring-0 px-2 py-1 text-sm shadow-sm"
+                                  />
+                                </label>
+                              ))}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                  {validationErrors.customFoodMicros && (
+                    <p className="mt-1 text-xs text-rose-600">{validationErrors.customFoodMicros}</p>
+                  )}
                 </div>
 
                 <div className="mt-4 rounded-xl border p-3 bg-slate-50">
@@ -3493,27 +6461,49 @@ export default function WellnessCalculator() {
                   </div>
                   <div className="grid grid-cols-4 gap-2">
                     {(() => {
-                      const amt = safeNum(customFoodAmount, 100);
-                      const cal = safeNum(customFoodCalories, 0);
-                      const fib = safeNum(customFoodFiber, 0);
-                      const prot = safeNum(customFoodProtein, 0);
+                      const values = customFoodFormValues();
+                      const b = customFoodBasePerG(values);
+                      const amt = values.amount;
+                      const cal = energyKcal(b, energySource) * amt;
+                      const fib = values.micros.fiber;
                       const VFF = ff(cal, fib);
-                      const VPF = pf(cal, prot);
+                      const VPF = pf(cal, values.protein);
                       const VWF = wf(VFF, VPF);
                       const VEF = ef(cal, amt);
                       return (
-                        <>
-                          <BadgeHalo label="FF" value={VFF} threshold={50} compact />
-                          <BadgeHalo label="PF" value={VPF} threshold={30} compact />
-                          <BadgeHalo label="WF" value={VWF} threshold={80} compact />
-                          <BadgeHalo label="EF" value={VEF} threshold={1} compact />
-                        </>
+                        <FactorBadges
+                          profile={scoringProfile}
+                          values={{ FF: VFF, PF: VPF, WF: VWF, EF: VEF }}
+                          extras={extraScores(scoringProfile, cal, values.micros)}
+                          compact
+                        />
                       );
                     })()}
                   </div>
                 </div>
               </div>
 
+              {editingCustomFood && (
+                <div className="mt-4 space-y-1 text-sm">
+                  {editingLogCount > 0 && (
+                    <label className="flex items-center gap-2">
+                      <input
+                        type="checkbox"
+                        checked={updateLoggedCustomFood}
+                        onChange={(e) => setUpdateLoggedCustomFood(e.target.checked)}
+                      />
+                      Also update {editingLogCount} logged{' '}
+                      {editingLogCount === 1 ? 'entry' : 'entries'}
+                    </label>
+                  )}
+                  {!!editingCustomFood.ingredients && (
+                    <p className="text-xs text-slate-500">
+                      Saving replaces the nutrients worked out from this recipe's ingredients.
+                    </p>
+                  )}
+                </div>
+              )}
+
               <div className="mt-6 flex justify-end gap-2">
                 <button
                   onClick={handleCustomFoodCancel}
@@ -3525,7 +6515,7 @@ export default function WellnessCalculator() {
                   onClick={handleCustomFoodSubmit}
                   className="rounded-xl bg-slate-900 px-4 py-2 text-sm text-white hover:bg-slate-800 focus:outline-none focus:ring-0"
                 >
-                  Submit
+                  {editingCustomFood ? 'Save' : 'Submit'}
                 </button>
               </div>
             </div>
@@ -3538,3 +6528,44 @@ export default function WellnessCalculator() {
     </div>
   );
 }
+
+// Without Supabase there is a single local user and no sign-in
+export default function App() {
+  if (backend !== 'supabase' || !supabase) {
+    return <WellnessCalculator user={{ id: LOCAL_USER_ID }} />;
+  }
+  return <SupabaseApp client={supabase} />;
+}
+
+// Signs the user in before showing the calculator. Keyed by user so that
+// switching accounts never leaks one user's state into the next.
+function SupabaseApp({ client }: { client: SupabaseClient }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [authReady, setAuthReady] = useState(false);
+
+  useEffect(() => {
+    client.auth
+      .getSession()
+      .then(({ data }) => setSession(data.session))
+      .catch((error) => console.error('Error restoring session:', error))
+      .finally(() => setAuthReady(true));
+    const {
+      data: { subscription },
+    } = client.auth.onAuthStateChange((_event, next) => setSession(next));
+    return () => subscription.unsubscribe();
+  }, [client]);
+
+  if (!authReady) return null;
+  if (!session) return <AuthPanel client={client} />;
+  return (
+    <WellnessCalculator
+      key={session.user.id}
+      user={session.user}
+      onSignOut={() => {
+        client.auth.signOut().catch((error) => {
+          console.error('Error signing out:', error);
+        });
+      }}
+    />
+  );
+}
@@ -0,0 +1,97 @@
+// === BMR equations ===
+// Resting energy in kcal/day. Mifflin–St Jeor, Harris–Benedict and WHO/FAO/UNU
+// work from weight (and height and age); Katch–McArdle and Cunningham work
+// from lean body mass, so they need a body-fat percentage. Without one those
+// two fall back to Mifflin–St Jeor.
+
+export type BmrEquation =
+  | 'mifflin_st_jeor'
+  | 'harris_benedict'
+  | 'katch_mcardle'
+  | 'cunningham'
+  | 'who_fao_unu';
+
+export const BMR_EQUATIONS: ReadonlyArray<{
+  key: BmrEquation;
+  label: string;
+  needsBodyFat: boolean;
+}> = [
+  { key: 'mifflin_st_jeor', label: 'Mifflin–St Jeor', needsBodyFat: false },
+  { key: 'harris_benedict', label: 'Harris–Benedict (revised)', needsBodyFat: false },
+  { key: 'katch_mcardle', label: 'Katch–McArdle', needsBodyFat: true },
+  { key: 'cunningham', label: 'Cunningham', needsBodyFat: true },
+  { key: 'who_fao_unu', label: 'WHO/FAO/UNU', needsBodyFat: false },
+];
+
+export const DEFAULT_BMR_EQUATION: BmrEquation = 'mifflin_st_jeor';
+
+export function isBmrEquation(x: unknown): x is BmrEquation {
+  return BMR_EQUATIONS.some((e) => e.key === x);
+}
+export function bmrEquationLabel(eq: BmrEquation) {
+  return BMR_EQUATIONS.find((e) => e.key === eq)?.label || eq;
+}
+
+export type BmrInput = {
+  sex: 'male' | 'female';
+  age: number;
+  kg: number;
+  cm: number;
+  // Latest logged body fat, if any
+  bodyFatPct: number | null;
+};
+
+// The equation actually used: lean-mass equations need a body-fat value
+export function effectiveEquation(eq: BmrEquation, bodyFatPct: number | null): BmrEquation {
+  const needsBodyFat = BMR_EQUATIONS.find((e) => e.key === eq)?.needsBodyFat;
+  return needsBodyFat && !(bodyFatPct && bodyFatPct > 0) ? DEFAULT_BMR_EQUATION : eq;
+}
+
+// WHO/FAO/UNU (1985) weight-only equations by age band: [up to age, per kg, constant]
+const WHO_BANDS: Record<BmrInput['sex'], Array<[number, number, number]>> = {
+  male: [
+    [3, 60.9, -54],
+    [10, 22.7, 495],
+    [18, 17.5, 651],
+    [30, 15.3, 679],
+    [60, 11.6, 879],
+    [Infinity, 13.5, 487],
+  ],
+  female: [
+    [3, 61.0, -51],
+    [10, 22.5, 499],
+    [18, 12.2, 746],
+    [30, 14.7, 496],
+    [60, 8.7, 829],
+    [Infinity, 10.5, 596],
+  ],
+};
+
+export function bmrFor(eq: BmrEquation, { sex, age, kg, cm, bodyFatPct }: BmrInput): number {
+  const male = sex === 'male';
+  const lean = kg * (1 - (bodyFatPct || 0) / 100);
+  let kcal: number;
+  switch (effectiveEquation(eq, bodyFatPct)) {
+    case 'harris_benedict':
+      // Roza & Shizgal (1984)
+      kcal = male
+        ? 88.362 + 13.397 * kg + 4.799 * cm - 5.677 * age
+        : 447.593 + 9.247 * kg + 3.098 * cm - 4.33 * age;
+      break;
+    case 'katch_mcardle':
+      kcal = 370 + 21.6 * lean;
+      break;
+    case 'cunningham':
+      kcal = 500 + 22 * lean;
+      break;
+    case 'who_fao_unu': {
+      const [, perKg, base] = WHO_BANDS[sex].find(([upTo]) => age < upTo)!;
+      kcal = perKg * kg + base;
+      break;
+    }
+    default:
+      kcal = 10 * kg + 6.25 * cm - 5 * age + (male ? 5 : -161);
+  }
+  // Nothing entered yet reads as 0 rather than the equations' constants
+  return kg > 0 ? Math.max(kcal, 0) : 0;
+}
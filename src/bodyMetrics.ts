@@ -0,0 +1,74 @@
+import type { Row } from './tables';
+
+// === Body measurements ===
+// Dated entries from the `body_metrics` table, one per day. Weight is always
+// recorded; waist and body fat are optional. Values are stored in kg, cm and
+// percent; the Units toggle only changes how they are shown (units.ts).
+
+export type BodyMetric = {
+  id: string;
+  // YYYY-MM-DD, like food_log.log_date
+  date: string;
+  weightKg: number;
+  waistCm: number | null;
+  bodyFatPct: number | null;
+};
+export type BodyMetricKey = 'weightKg' | 'waistCm' | 'bodyFatPct';
+export type TrendPoint = { date: string; value: number; average: number };
+
+export const MOVING_AVERAGE_DAYS = 7;
+
+function optional(x: unknown): number | null {
+  const n = Number(x);
+  return x !== null && x !== undefined && x !== '' && Number.isFinite(n) && n > 0 ? n : null;
+}
+
+// Reads a stored row; rows without a date or a usable weight are dropped
+export function parseBodyMetric(row: Row): BodyMetric | null {
+  const weightKg = Number(row.weight_kg);
+  if (!row.measured_on || !(weightKg > 0)) return null;
+  return {
+    id: String(row.id),
+    date: String(row.measured_on).slice(0, 10),
+    weightKg,
+    waistCm: optional(row.waist_cm),
+    bodyFatPct: optional(row.body_fat_pct),
+  };
+}
+
+// Oldest first
+export function sortMetrics(entries: BodyMetric[]): BodyMetric[] {
+  return [...entries].sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+}
+
+// The most recent entry that has a value for `key`
+export function latestMetric(
+  entries: BodyMetric[],
+  key: BodyMetricKey = 'weightKg'
+): BodyMetric | undefined {
+  return sortMetrics(entries)
+    .reverse()
+    .find((e) => e[key] !== null);
+}
+
+export function dayNumber(date: string) {
+  const [y, m, d] = date.split('-').map(Number);
+  return Date.UTC(y, (m || 1) - 1, d || 1) / 86400000;
+}
+
+// Each entry with the mean of the entries in the `days` days ending on it,
+// so gaps in the record do not stretch the window
+export function trend(
+  entries: BodyMetric[],
+  key: BodyMetricKey,
+  days = MOVING_AVERAGE_DAYS
+): TrendPoint[] {
+  const points = sortMetrics(entries)
+    .filter((e) => e[key] !== null)
+    .map((e) => ({ date: e.date, day: dayNumber(e.date), value: e[key] as number }));
+  return points.map((p, i) => {
+    const window = points.slice(0, i + 1).filter((q) => q.day > p.day - days);
+    const average = window.reduce((a, q) => a + q.value, 0) / window.length;
+    return { date: p.date, value: p.value, average };
+  });
+}
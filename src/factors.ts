@@ -0,0 +1,17 @@
+// === TWS factor helpers ===
+// Calories per gram of fiber (FF) and of protein (PF), their sum (WF), and
+// calories per gram of food (EF). Lower is better; a missing divisor makes
+// the factor infinite.
+
+export function ff(cal: number, fiberG: number) {
+  return fiberG > 0 ? cal / fiberG : Infinity;
+}
+export function pf(cal: number, proteinG: number) {
+  return proteinG > 0 ? cal / proteinG : Infinity;
+}
+export function wf(vff: number, vpf: number) {
+  return Number.isFinite(vff) && Number.isFinite(vpf) ? vff + vpf : Infinity;
+}
+export function ef(cal: number, massG: number) {
+  return massG > 0 ? cal / massG : Infinity;
+}
@@ -0,0 +1,80 @@
+import { backend } from './storage';
+import { supabase } from './supabaseClient';
+
+// === USDA FoodData Central access ===
+// With Supabase the app goes through the fdc-proxy edge function, which holds
+// a shared key, so a personal key is optional. The local backends have no
+// server and call USDA directly with the user's own key.
+
+const FDC_BASE = 'https://api.nal.usda.gov/fdc/v1';
+const PERSONAL_KEY_STORAGE = 'wellness-fdc-api-key';
+
+export const fdcProxyAvailable = backend === 'supabase' && supabase !== null;
+
+// Personal keys stay in this browser; they are never written to the database
+export function loadPersonalFdcKey(): string {
+  try {
+    return localStorage.getItem(PERSONAL_KEY_STORAGE) || '';
+  } catch {
+    return '';
+  }
+}
+
+export function savePersonalFdcKey(key: string) {
+  try {
+    if (key) localStorage.setItem(PERSONAL_KEY_STORAGE, key);
+    else localStorage.removeItem(PERSONAL_KEY_STORAGE);
+  } catch (e) {
+    console.warn('Could not save USDA key on this device', e);
+  }
+}
+
+// USDA accepts at most this many ids per POST /foods
+export const FDC_BATCH_SIZE = 20;
+
+// Fetches a FoodData Central endpoint ('/foods/search', '/food/{id}', or
+// '/foods' when a body is given) and returns the raw response so callers can
+// inspect the status
+export async function fdcFetch(
+  path: string,
+  params: Record<string, string>,
+  personalKey: string,
+  init: { signal?: AbortSignal; body?: unknown } = {}
+): Promise<Response> {
+  const request: RequestInit = { signal: init.signal };
+  if (init.body !== undefined) {
+    request.method = 'POST';
+    request.body = JSON.stringify(init.body);
+  }
+  const contentType: Record<string, string> =
+    init.body !== undefined ? { 'Content-Type': 'application/json' } : {};
+
+  if (!fdcProxyAvailable || !supabase) {
+    const url = new URL(FDC_BASE + path);
+    Object.entries(params).forEach(([k, v]) => url.searchParams.set(k, v));
+    url.searchParams.set('api_key', personalKey);
+    return fetch(url.toString(), { ...request, headers: contentType });
+  }
+
+  const { data } = await supabase.auth.getSession();
+  const url = new URL(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/fdc-proxy${path}`);
+  Object.entries(params).forEach(([k, v]) => url.searchParams.set(k, v));
+  const headers: Record<string, string> = {
+    ...contentType,
+    apikey: import.meta.env.VITE_SUPABASE_ANON_KEY,
+    Authorization: `Bearer ${data.session?.access_token ?? ''}`,
+  };
+  if (personalKey) headers['x-fdc-api-key'] = personalKey;
+  return fetch(url.toString(), { ...request, headers });
+}
+
+// Turns a failed USDA response into a message for the search panel
+export function fdcErrorMessage(res: Response): string {
+  if (res.status === 429) return 'Too many searches right now; wait a minute and try again.';
+  if (res.status === 403) {
+    return fdcProxyAvailable
+      ? '403 from USDA. Check your personal key (or clear it), or click demo.'
+      : '403 from USDA. Check your key, or click demo.';
+  }
+  return `Search failed (${res.status}).`;
+}
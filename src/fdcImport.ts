@@ -0,0 +1,509 @@
+import { NUTRIENTS } from './nutrients';
+
+// === Local USDA food database ===
+// Imports the FoodData Central bulk downloads (https://fdc.nal.usda.gov/download-datasets)
+// into IndexedDB so foods can be searched without calling api.nal.usda.gov.
+//
+// Accepted files:
+//   JSON - FoodData_Central_{foundation,sr_legacy,survey,branded}_food_json_*.json
+//   CSV  - food.csv, nutrient.csv and food_nutrient.csv from the same download,
+//          plus branded_food.csv for brand names and serving sizes
+// Each food is normalized to per-100 g values in the same shape parseNutrients
+// produces, by the normalize callback the app passes in.
+
+export type Nutrients = {
+  energy: number;
+  protein: number;
+  fat: number;
+  carbs: number;
+  micros: Record<string, number>;
+};
+
+export type LocalFood = {
+  fdcId: number;
+  description: string;
+  dataType: string;
+  brandOwner?: string;
+  servingSize?: number;
+  servingSizeUnit?: string;
+  nutrients: Nutrients; // per 100 g
+  search: string; // lowercased description and brand
+};
+
+export type ImportProgress = { phase: string; foods: number };
+
+type FdcNutrient = { nutrient: { id: number; number?: string; name: string; unitName?: string }; amount: number };
+// A food as the bulk download lists it; fields are read and checked one by one
+type FdcFood = Record<string, unknown>;
+// The same, assembled from the CSV files
+type CsvFood = FdcFood & { fdcId: number; foodNutrients: FdcNutrient[] };
+
+const DB_NAME = 'wellness-fdc-local';
+const STORE = 'foods';
+// CSV imports assemble foods here from several files before they are normalized
+const STAGING = 'csv_staging';
+const BATCH = 1000;
+const MAX_MATCHES = 1000;
+
+// Nutrients kept from food_nutrient.csv: energy, the macros and everything in
+// the nutrient registry; the rest is skipped to keep the import small.
+// Ids are FDC nutrient ids (not numbers).
+export const IMPORTED_NUTRIENT_IDS = new Set([
+  1008, // Energy (kcal)
+  2047, // Energy, Atwater general factors
+  2048, // Energy, Atwater specific factors
+  1003, // Protein
+  1004, // Total lipid (fat)
+  1005, // Carbohydrate, by difference
+  ...NUTRIENTS.map((n) => n.id),
+]);
+
+// food.csv data_type values worth importing, with the names the API and the
+// JSON downloads use. Sample, sub-sample and acquisition rows are lab records
+// behind other foods, not foods, and are skipped.
+const CSV_DATA_TYPES: Record<string, string> = {
+  foundation_food: 'Foundation',
+  sr_legacy_food: 'SR Legacy',
+  survey_fndds_food: 'Survey (FNDDS)',
+  branded_food: 'Branded',
+  experimental_food: 'Experimental',
+};
+
+// ===================== IndexedDB =====================
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('This browser cannot store a local food database.'));
+      return;
+    }
+    const req = indexedDB.open(DB_NAME, 2);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      if (!db.objectStoreNames.contains(STORE)) db.createObjectStore(STORE, { keyPath: 'fdcId' });
+      if (!db.objectStoreNames.contains(STAGING)) db.createObjectStore(STAGING, { keyPath: 'fdcId' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function putFoods(foods: LocalFood[]) {
+  if (foods.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  foods.forEach((f) => tx.objectStore(STORE).put(f));
+  await done(tx);
+}
+
+export async function countLocalFoods(): Promise<number> {
+  try {
+    const db = await openDb();
+    return await new Promise((resolve, reject) => {
+      const req = db.transaction(STORE, 'readonly').objectStore(STORE).count();
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+  } catch {
+    return 0;
+  }
+}
+
+async function clearStore(name: string) {
+  const db = await openDb();
+  const tx = db.transaction(name, 'readwrite');
+  tx.objectStore(name).clear();
+  await done(tx);
+}
+
+export async function clearLocalFoods() {
+  await clearStore(STORE);
+}
+
+async function putStaged(foods: CsvFood[]) {
+  if (foods.length === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STAGING, 'readwrite');
+  foods.forEach((f) => tx.objectStore(STAGING).put(f));
+  await done(tx);
+}
+
+// Applies each change to the staged food with that id; ids that were never
+// staged (skipped data types) are ignored
+async function updateStaged(changes: Map<number, (food: CsvFood) => void>) {
+  if (changes.size === 0) return;
+  const db = await openDb();
+  const tx = db.transaction(STAGING, 'readwrite');
+  const store = tx.objectStore(STAGING);
+  changes.forEach((change, fdcId) => {
+    const req = store.get(fdcId);
+    req.onsuccess = () => {
+      const food = req.result as CsvFood | undefined;
+      if (!food) return;
+      change(food);
+      store.put(food);
+    };
+  });
+  await done(tx);
+}
+
+// Staged foods in id order, one batch at a time
+async function* stagedFoods(): AsyncGenerator<CsvFood[]> {
+  const db = await openDb();
+  let after: number | null = null;
+  for (;;) {
+    const range = after === null ? undefined : IDBKeyRange.lowerBound(after, true);
+    const batch = await new Promise<CsvFood[]>((resolve, reject) => {
+      const req = db.transaction(STAGING, 'readonly').objectStore(STAGING).getAll(range, BATCH);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    if (batch.length === 0) return;
+    yield batch;
+    after = batch[batch.length - 1].fdcId;
+  }
+}
+
+// Every word of the query must appear in the description or brand
+export async function searchLocalFoods(
+  query: string,
+  page: number,
+  pageSize: number
+): Promise<{ foods: LocalFood[]; total: number }> {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  const db = await openDb();
+  const matches: LocalFood[] = [];
+  await new Promise<void>((resolve, reject) => {
+    const req = db.transaction(STORE, 'readonly').objectStore(STORE).openCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor || matches.length >= MAX_MATCHES) return resolve();
+      const food = cursor.value as LocalFood;
+      if (words.every((w) => food.search.includes(w))) matches.push(food);
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+  // Shorter names first, so "Apples, raw" beats "Apple pie, commercially prepared"
+  matches.sort((a, b) => a.description.length - b.description.length);
+  const start = (page - 1) * pageSize;
+  return { foods: matches.slice(start, start + pageSize), total: matches.length };
+}
+
+// Shapes a local food like an abridged USDA search result, with per-100 g
+// label values, so the result cards and addFood treat it like any other food
+export function localFoodToFdc(food: LocalFood) {
+  const n = food.nutrients;
+  return {
+    fdcId: food.fdcId,
+    description: food.description,
+    dataType: food.dataType,
+    brandOwner: food.brandOwner,
+    servingSize: food.servingSize,
+    servingSizeUnit: food.servingSizeUnit,
+    labelNutrients: {
+      calories: { value: n.energy },
+      protein: { value: n.protein },
+      fat: { value: n.fat },
+      carbohydrates: { value: n.carbs },
+      fiber: { value: n.micros.fiber ?? 0 },
+      sugars: { value: n.micros.sugar ?? 0 },
+      saturatedFat: { value: n.micros.satfat ?? 0 },
+      sodium: { value: n.micros.sodium ?? 0 },
+      cholesterol: { value: n.micros.cholesterol ?? 0 },
+    },
+    // Full per-100 g registry values, which labelNutrients cannot carry
+    foodNutrients: NUTRIENTS.filter((d) => n.micros[d.key]).map((d) => ({
+      nutrientId: d.id,
+      nutrientNumber: d.number,
+      nutrientName: d.label,
+      value: n.micros[d.key],
+    })),
+  };
+}
+
+// ===================== Import =====================
+function toLocalFood(food: FdcFood, normalize: (food: FdcFood) => Nutrients): LocalFood | null {
+  const fdcId = Number(food?.fdcId);
+  const description = String(food?.description ?? '').trim();
+  if (!Number.isFinite(fdcId) || !description) return null;
+  const brandOwner = food.brandOwner ? String(food.brandOwner) : undefined;
+  const servingSize = Number(food.servingSize);
+  // normalize resolves energy, including the Atwater fallback for Foundation foods
+  const nutrients = normalize(food);
+  return {
+    fdcId,
+    description,
+    dataType: String(food.dataType ?? ''),
+    brandOwner,
+    servingSize: servingSize > 0 ? servingSize : undefined,
+    servingSizeUnit: food.servingSizeUnit ? String(food.servingSizeUnit) : undefined,
+    nutrients,
+    search: `${description} ${brandOwner ?? ''}`.toLowerCase(),
+  };
+}
+
+// Parses CSV records from a file as a stream, so multi-gigabyte downloads
+// never have to fit in memory as text
+async function* csvRecords(file: File): AsyncGenerator<string[]> {
+  const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+  let field = '';
+  let record: string[] = [];
+  let quoted = false;
+  let pendingQuote = false;
+  for (;;) {
+    const { value, done: finished } = await reader.read();
+    if (finished) break;
+    const batch: string[][] = [];
+    for (const ch of value) {
+      if (quoted) {
+        if (pendingQuote) {
+          pendingQuote = false;
+          if (ch === '"') {
+            field += '"';
+            continue;
+          }
+          quoted = false;
+        } else if (ch === '"') {
+          pendingQuote = true;
+          continue;
+        } else {
+          field += ch;
+          continue;
+        }
+      }
+      if (ch === '"') quoted = true;
+      else if (ch === ',') {
+        record.push(field);
+        field = '';
+      } else if (ch === '\n') {
+        record.push(field);
+        batch.push(record);
+        field = '';
+        record = [];
+      } else if (ch !== '\r') field += ch;
+    }
+    yield* batch;
+  }
+  if (field || record.length) yield [...record, field];
+}
+
+// Reads a CSV into objects keyed by its header row
+async function* csvRows(file: File): AsyncGenerator<Record<string, string>> {
+  let header: string[] | null = null;
+  for await (const rec of csvRecords(file)) {
+    if (!header) {
+      header = rec;
+      continue;
+    }
+    const row: Record<string, string> = {};
+    header.forEach((h, i) => (row[h] = rec[i] ?? ''));
+    yield row;
+  }
+}
+
+// Yields the elements of the first array in a JSON file as a stream. Bulk JSON
+// wraps its list in a single key such as FoundationFoods or BrandedFoods, and
+// is far too large to parse as one document.
+async function* jsonArrayItems(file: File): AsyncGenerator<unknown> {
+  const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+  let inArray = false;
+  let inString = false;
+  let escaped = false;
+  let depth = 0; // nesting inside the current element
+  let item = ''; // the current element's text from earlier chunks
+  for (;;) {
+    const { value, done: finished } = await reader.read();
+    if (finished) break;
+    const batch: unknown[] = [];
+    let start = 0;
+    let ended = false;
+    const element = (end: number) => {
+      const text = item + value.slice(start, end);
+      item = '';
+      start = end + 1;
+      if (text.trim()) batch.push(JSON.parse(text));
+    };
+    for (let i = 0; i < value.length && !ended; i++) {
+      const ch = value[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') inString = true;
+      else if (!inArray) {
+        if (ch === '[') {
+          inArray = true;
+          start = i + 1;
+        }
+      } else if (ch === '{' || ch === '[') depth++;
+      else if (ch === '}' || ch === ']') {
+        if (depth > 0) depth--;
+        else {
+          element(i);
+          ended = true;
+        }
+      } else if (ch === ',' && depth === 0) element(i);
+    }
+    yield* batch;
+    if (ended) {
+      await reader.cancel();
+      return;
+    }
+    if (inArray) item += value.slice(start);
+  }
+}
+
+async function importJson(
+  file: File,
+  save: (foods: FdcFood[]) => Promise<void>,
+  onProgress: (p: ImportProgress) => void
+) {
+  onProgress({ phase: `Reading ${file.name}`, foods: 0 });
+  let count = 0;
+  let batch: FdcFood[] = [];
+  const flush = async () => {
+    await save(batch);
+    count += batch.length;
+    batch = [];
+    onProgress({ phase: `Importing ${file.name}`, foods: count });
+  };
+  for await (const food of jsonArrayItems(file)) {
+    if (food && typeof food === 'object') batch.push(food as FdcFood);
+    if (batch.length === BATCH) await flush();
+  }
+  if (batch.length > 0) await flush();
+  return count;
+}
+
+async function importCsv(
+  files: Map<string, File>,
+  save: (foods: FdcFood[]) => Promise<void>,
+  onProgress: (p: ImportProgress) => void
+) {
+  const foodFile = files.get('food.csv');
+  const nutrientFile = files.get('nutrient.csv');
+  const foodNutrientFile = files.get('food_nutrient.csv');
+  if (!foodFile || !nutrientFile || !foodNutrientFile) {
+    throw new Error('CSV imports need food.csv, nutrient.csv and food_nutrient.csv from the same download.');
+  }
+
+  onProgress({ phase: 'Reading nutrient.csv', foods: 0 });
+  const nutrients = new Map<number, FdcNutrient['nutrient']>();
+  for await (const r of csvRows(nutrientFile)) {
+    const id = Number(r.id);
+    if (IMPORTED_NUTRIENT_IDS.has(id)) {
+      nutrients.set(id, { id, number: r.nutrient_nbr, name: r.name, unitName: r.unit_name });
+    }
+  }
+
+  // Foods are assembled in IndexedDB rather than in memory: branded downloads
+  // list millions of foods and tens of millions of nutrient rows
+  await clearStore(STAGING);
+  onProgress({ phase: 'Reading food.csv', foods: 0 });
+  let staged: CsvFood[] = [];
+  for await (const r of csvRows(foodFile)) {
+    const fdcId = Number(r.fdc_id);
+    const dataType = CSV_DATA_TYPES[r.data_type];
+    if (!Number.isFinite(fdcId) || !dataType) continue;
+    staged.push({ fdcId, description: r.description, dataType, foodNutrients: [] });
+    if (staged.length === BATCH) {
+      await putStaged(staged);
+      staged = [];
+    }
+  }
+  await putStaged(staged);
+
+  const branded = files.get('branded_food.csv');
+  if (branded) {
+    onProgress({ phase: 'Reading branded_food.csv', foods: 0 });
+    let changes = new Map<number, (food: CsvFood) => void>();
+    for await (const r of csvRows(branded)) {
+      changes.set(Number(r.fdc_id), (food) => {
+        food.brandOwner = r.brand_owner || r.brand_name || undefined;
+        food.servingSize = Number(r.serving_size) || undefined;
+        food.servingSizeUnit = r.serving_size_unit || undefined;
+      });
+      if (changes.size === BATCH) {
+        await updateStaged(changes);
+        changes = new Map();
+      }
+    }
+    await updateStaged(changes);
+  }
+
+  let rows = 0;
+  let pending = 0;
+  let found = new Map<number, FdcNutrient[]>();
+  const flush = async () => {
+    const changes = new Map<number, (food: CsvFood) => void>();
+    found.forEach((list, fdcId) => changes.set(fdcId, (food) => food.foodNutrients.push(...list)));
+    await updateStaged(changes);
+    found = new Map();
+    pending = 0;
+  };
+  for await (const r of csvRows(foodNutrientFile)) {
+    const nutrient = nutrients.get(Number(r.nutrient_id));
+    if (nutrient) {
+      const fdcId = Number(r.fdc_id);
+      const list = found.get(fdcId) ?? [];
+      list.push({ nutrient, amount: Number(r.amount) || 0 });
+      found.set(fdcId, list);
+      if (++pending === BATCH * 10) await flush();
+    }
+    if (++rows % 100000 === 0) {
+      onProgress({ phase: `Reading food_nutrient.csv (${rows.toLocaleString()} rows)`, foods: 0 });
+    }
+  }
+  await flush();
+
+  let count = 0;
+  for await (const batch of stagedFoods()) {
+    await save(batch);
+    count += batch.length;
+    onProgress({ phase: 'Importing CSV foods', foods: count });
+  }
+  await clearStore(STAGING);
+  return count;
+}
+
+// Imports the selected bulk download files and returns how many foods were
+// stored. onFoods sees every batch of FDC-shaped foods as it is saved.
+export async function importFdcFiles(
+  files: File[],
+  normalize: (food: FdcFood) => Nutrients,
+  onProgress: (p: ImportProgress) => void,
+  onFoods?: (foods: FdcFood[]) => Promise<void>
+): Promise<number> {
+  const save = async (batch: FdcFood[]) => {
+    await putFoods(
+      batch.map((f) => toLocalFood(f, normalize)).filter((f): f is LocalFood => f !== null)
+    );
+    if (onFoods) await onFoods(batch);
+  };
+
+  let imported = 0;
+  const csv = new Map<string, File>();
+  for (const file of files) {
+    const name = file.name.toLowerCase();
+    if (name.endsWith('.json')) imported += await importJson(file, save, onProgress);
+    else if (name.endsWith('.csv')) csv.set(name.replace(/^.*[\\/]/, ''), file);
+    else throw new Error(`${file.name} is not a FoodData Central JSON or CSV file.`);
+  }
+  if (csv.size > 0) imported += await importCsv(csv, save, onProgress);
+  return imported;
+}
@@ -0,0 +1,113 @@
+import { fdcProxyAvailable } from './fdc';
+import { supabase } from './supabaseClient';
+
+// === USDA food document cache ===
+// Food documents rarely change, so once fetched they are kept in IndexedDB on
+// this device and, with Supabase, in the shared usda_foods table that the
+// fdc-proxy function fills. Both are consulted before any /food/{id} call.
+
+// A food document exactly as USDA returns it; callers parse what they need
+type FoodDoc = unknown;
+type CachedFood = { fdcId: number; data: FoodDoc; fetchedAt: string };
+
+const DB_NAME = 'wellness-usda-cache';
+const STORE = 'foods';
+export const USDA_CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memory = new Map<number, CachedFood>();
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: 'fdcId' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      console.warn('IndexedDB unavailable; USDA foods are cached for this session only', req.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+function isFresh(entry: CachedFood | undefined): entry is CachedFood {
+  return !!entry && Date.now() - Date.parse(entry.fetchedAt) < USDA_CACHE_TTL_MS;
+}
+
+async function readLocal(ids: number[]): Promise<CachedFood[]> {
+  const db = await openDb();
+  if (!db) return ids.map((id) => memory.get(id)).filter(isFresh);
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  const entries = await Promise.all(
+    ids.map(
+      (id) =>
+        new Promise<CachedFood | undefined>((resolve) => {
+          const req = store.get(id);
+          req.onsuccess = () => resolve(req.result as CachedFood | undefined);
+          req.onerror = () => resolve(undefined);
+        })
+    )
+  );
+  return entries.filter(isFresh);
+}
+
+async function writeLocal(entries: CachedFood[]) {
+  if (entries.length === 0) return;
+  const db = await openDb();
+  if (!db) {
+    entries.forEach((e) => memory.set(e.fdcId, e));
+    return;
+  }
+  const tx = db.transaction(STORE, 'readwrite');
+  entries.forEach((e) => tx.objectStore(STORE).put(e));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+// Returns every fresh cached document among ids, checking this device first
+// and then the shared table
+export async function getCachedFoods(ids: number[]): Promise<Map<number, FoodDoc>> {
+  const found = new Map<number, FoodDoc>();
+  if (ids.length === 0) return found;
+  try {
+    (await readLocal(ids)).forEach((e) => found.set(e.fdcId, e.data));
+  } catch (e) {
+    console.warn('Could not read USDA cache', e);
+  }
+
+  const missing = ids.filter((id) => !found.has(id));
+  if (missing.length === 0 || !fdcProxyAvailable || !supabase) return found;
+  const cutoff = new Date(Date.now() - USDA_CACHE_TTL_MS).toISOString();
+  const { data, error } = await supabase
+    .from('usda_foods')
+    .select('fdc_id, data, fetched_at')
+    .in('fdc_id', missing)
+    .gte('fetched_at', cutoff);
+  if (error) {
+    console.error('Error loading cached USDA foods:', error);
+    return found;
+  }
+  const entries: CachedFood[] = (data || []).map((r) => ({
+    fdcId: Number(r.fdc_id),
+    data: r.data,
+    fetchedAt: r.fetched_at,
+  }));
+  entries.forEach((e) => found.set(e.fdcId, e.data));
+  writeLocal(entries).catch((e) => console.warn('Could not update USDA cache', e));
+  return found;
+}
+
+// Remembers a food document on this device; the shared table is filled by the proxy
+export async function cacheFood(fdcId: number, food: FoodDoc) {
+  try {
+    await writeLocal([{ fdcId, data: food, fetchedAt: new Date().toISOString() }]);
+  } catch (e) {
+    console.warn('Could not update USDA cache', e);
+  }
+}
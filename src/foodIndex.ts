@@ -0,0 +1,133 @@
+import { backend } from './storage';
+import { supabase } from './supabaseClient';
+
+// === Precomputed WF/EF ranking ===
+// WF and EF modes rank foods from an index of per-100 g values instead of
+// downloading search results and sorting them in the browser. With Supabase
+// the index is the food_index table (filled by the build-food-index edge
+// function); the local backends keep their own index in IndexedDB, built up
+// from the generic foods that pass through search.
+
+export type RankMode = 'wf' | 'ef';
+
+export type FoodIndexRow = {
+  fdc_id: number;
+  description: string;
+  data_type: string;
+  calories: number;
+  protein: number;
+  fat: number;
+  carbs: number;
+  fiber: number;
+  ff: number | null;
+  pf: number | null;
+  wf: number | null; // null = infinite
+  ef: number;
+};
+
+export type RankQuery = { mode: RankMode; query: string; page: number; pageSize: number };
+
+// Generic datasets only; branded foods are too numerous and too uneven to rank
+export const INDEXED_DATA_TYPES = ['Foundation', 'SR Legacy', 'Survey (FNDDS)'];
+
+const DB_NAME = 'wellness-food-index';
+const STORE = 'foods';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memory = new Map<number, FoodIndexRow>();
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    const req = indexedDB.open(DB_NAME, 1);
+    req.onupgradeneeded = () => {
+      req.result.createObjectStore(STORE, { keyPath: 'fdc_id' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      console.warn('IndexedDB unavailable; the food index lasts for this session only', req.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+async function readLocalIndex(): Promise<FoodIndexRow[]> {
+  const db = await openDb();
+  if (!db) return [...memory.values()];
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(STORE, 'readonly').objectStore(STORE).getAll();
+    req.onsuccess = () => resolve(req.result as FoodIndexRow[]);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+// Adds rows to this device's index; a no-op with Supabase, whose index is built server-side
+export async function indexFoodsLocally(rows: FoodIndexRow[]) {
+  if (backend === 'supabase' || rows.length === 0) return;
+  const db = await openDb();
+  if (!db) {
+    rows.forEach((r) => memory.set(r.fdc_id, r));
+    return;
+  }
+  const tx = db.transaction(STORE, 'readwrite');
+  rows.forEach((r) => tx.objectStore(STORE).put(r));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+function rankLocally(rows: FoodIndexRow[], { mode, query, page, pageSize }: RankQuery) {
+  const needle = query.trim().toLowerCase();
+  const matching = rows.filter(
+    (r) =>
+      r.calories > 0 &&
+      (mode === 'wf' ? r.wf !== null : r.wf === null) &&
+      (!needle || r.description.toLowerCase().includes(needle))
+  );
+  matching.sort((a, b) => (mode === 'wf' ? a.wf! - b.wf! : a.ef - b.ef));
+  const start = (page - 1) * pageSize;
+  return { rows: matching.slice(start, start + pageSize), total: matching.length };
+}
+
+// Returns one page of foods ranked by WF (finite WF, lowest first) or by EF
+// (infinite WF, lowest first), optionally filtered by description
+export async function rankFoods(q: RankQuery): Promise<{ rows: FoodIndexRow[]; total: number }> {
+  if (backend !== 'supabase' || !supabase) return rankLocally(await readLocalIndex(), q);
+
+  const from = (q.page - 1) * q.pageSize;
+  let request = supabase
+    .from('food_index')
+    .select('*', { count: 'exact' })
+    .gt('calories', 0);
+  request = q.mode === 'wf' ? request.not('wf', 'is', null) : request.is('wf', null);
+  const needle = q.query.trim();
+  if (needle) request = request.ilike('description', `%${needle.replace(/[%_]/g, '\\$&')}%`);
+  const { data, count, error } = await request
+    .order(q.mode, { ascending: true })
+    .range(from, from + q.pageSize - 1);
+  if (error) throw error;
+  return { rows: (data || []) as FoodIndexRow[], total: count ?? 0 };
+}
+
+// Shapes an index row like an abridged USDA food so the result cards and
+// parsers treat it like any other search result
+export function indexRowToFood(row: FoodIndexRow) {
+  return {
+    fdcId: Number(row.fdc_id),
+    description: row.description,
+    dataType: row.data_type,
+    labelNutrients: {
+      calories: { value: Number(row.calories) },
+      protein: { value: Number(row.protein) },
+      fat: { value: Number(row.fat) },
+      carbohydrates: { value: Number(row.carbs) },
+      fiber: { value: Number(row.fiber) },
+    },
+    _wf: row.wf === null ? Infinity : Number(row.wf),
+    _ef: Number(row.ef),
+    _cal: Number(row.calories),
+  };
+}
@@ -0,0 +1,144 @@
+// === Reference intakes ===
+// Daily targets and upper limits for the nutrient registry (nutrients.ts),
+// either from the National Academies' Dietary Reference Intakes by age and sex
+// or from the FDA label Daily Values (one set for everyone 4 and older).
+//
+// DRI targets are RDAs where one exists and AIs otherwise. Limits are ULs,
+// the sodium CDRR, and the Dietary Guidelines' "under 10% of calories" caps
+// for saturated fat and added sugar.
+
+export type IntakeStandard = 'dri' | 'fda';
+export type Intake = { target?: number; limit?: number };
+export type Intakes = Record<string, Intake>;
+
+export const INTAKE_STANDARDS: ReadonlyArray<{ key: IntakeStandard; label: string }> = [
+  { key: 'dri', label: 'RDA / AI (by age and sex)' },
+  { key: 'fda', label: 'FDA Daily Values' },
+];
+
+// Nutrients whose limit gets a green/rose badge under the day totals
+export const LIMITED_NUTRIENTS = ['sodium', 'satfat', 'addedSugar'] as const;
+
+export function isIntakeStandard(x: unknown): x is IntakeStandard {
+  return x === 'dri' || x === 'fda';
+}
+
+const FDA_DAILY_VALUES: Intakes = {
+  fiber: { target: 28 },
+  addedSugar: { limit: 50 },
+  satfat: { limit: 20 },
+  cholesterol: { limit: 300 },
+  sodium: { limit: 2300 },
+  potassium: { target: 4700 },
+  calcium: { target: 1300 },
+  iron: { target: 18 },
+  magnesium: { target: 420 },
+  phosphorus: { target: 1250 },
+  zinc: { target: 11 },
+  copper: { target: 0.9 },
+  selenium: { target: 55 },
+  vitaminA: { target: 900 },
+  vitaminC: { target: 90 },
+  vitaminD: { target: 20 },
+  vitaminE: { target: 15 },
+  vitaminK: { target: 120 },
+  thiamin: { target: 1.2 },
+  riboflavin: { target: 1.3 },
+  niacin: { target: 16 },
+  vitaminB6: { target: 1.7 },
+  folate: { target: 400 },
+  vitaminB12: { target: 2.4 },
+  choline: { target: 550 },
+};
+
+// Life-stage groups the DRI tables use from age 9 up
+type Band = '9-13' | '14-18' | '19-30' | '31-50' | '51-70' | '71+';
+
+function bandFor(age: number): Band {
+  // An unset age falls back to the young-adult values
+  if (!Number.isFinite(age) || age <= 0) return '19-30';
+  if (age < 14) return '9-13';
+  if (age < 19) return '14-18';
+  if (age < 31) return '19-30';
+  if (age < 51) return '31-50';
+  if (age < 71) return '51-70';
+  return '71+';
+}
+
+// [male, female] per band
+type Row = Record<Band, [number, number]>;
+const same = (m: number, f: number, from: Band[]): Partial<Row> =>
+  Object.fromEntries(from.map((b) => [b, [m, f]]));
+const ADULT: Band[] = ['19-30', '31-50', '51-70', '71+'];
+
+const DRI_TARGETS: Record<string, Row> = {
+  fiber: { '9-13': [31, 26], '14-18': [38, 26], ...same(38, 25, ['19-30', '31-50']), ...same(30, 21, ['51-70', '71+']) } as Row,
+  potassium: { '9-13': [2500, 2300], '14-18': [3000, 2300], ...same(3400, 2600, ADULT) } as Row,
+  calcium: { ...same(1300, 1300, ['9-13', '14-18']), ...same(1000, 1000, ['19-30', '31-50']), '51-70': [1000, 1200], '71+': [1200, 1200] } as Row,
+  iron: { '9-13': [8, 8], '14-18': [11, 15], ...same(8, 18, ['19-30', '31-50']), ...same(8, 8, ['51-70', '71+']) } as Row,
+  magnesium: { '9-13': [240, 240], '14-18': [410, 360], '19-30': [400, 310], ...same(420, 320, ['31-50', '51-70', '71+']) } as Row,
+  phosphorus: { ...same(1250, 1250, ['9-13', '14-18']), ...same(700, 700, ADULT) } as Row,
+  zinc: { '9-13': [8, 8], '14-18': [11, 9], ...same(11, 8, ADULT) } as Row,
+  copper: { '9-13': [0.7, 0.7], '14-18': [0.89, 0.89], ...same(0.9, 0.9, ADULT) } as Row,
+  selenium: { '9-13': [40, 40], ...same(55, 55, ['14-18', ...ADULT]) } as Row,
+  vitaminA: { '9-13': [600, 600], ...same(900, 700, ['14-18', ...ADULT]) } as Row,
+  vitaminC: { '9-13': [45, 45], '14-18': [75, 65], ...same(90, 75, ADULT) } as Row,
+  vitaminD: { ...same(15, 15, ['9-13', '14-18', '19-30', '31-50', '51-70']), '71+': [20, 20] } as Row,
+  vitaminE: { '9-13': [11, 11], ...same(15, 15, ['14-18', ...ADULT]) } as Row,
+  vitaminK: { '9-13': [60, 60], '14-18': [75, 75], ...same(120, 90, ADULT) } as Row,
+  thiamin: { '9-13': [0.9, 0.9], '14-18': [1.2, 1.0], ...same(1.2, 1.1, ADULT) } as Row,
+  riboflavin: { '9-13': [0.9, 0.9], '14-18': [1.3, 1.0], ...same(1.3, 1.1, ADULT) } as Row,
+  niacin: { '9-13': [12, 12], ...same(16, 14, ['14-18', ...ADULT]) } as Row,
+  vitaminB6: { '9-13': [1.0, 1.0], '14-18': [1.3, 1.2], ...same(1.3, 1.3, ['19-30', '31-50']), ...same(1.7, 1.5, ['51-70', '71+']) } as Row,
+  folate: { '9-13': [300, 300], ...same(400, 400, ['14-18', ...ADULT]) } as Row,
+  vitaminB12: { '9-13': [1.8, 1.8], ...same(2.4, 2.4, ['14-18', ...ADULT]) } as Row,
+  choline: { '9-13': [375, 375], '14-18': [550, 400], ...same(550, 425, ADULT) } as Row,
+};
+
+// Upper limits that do not depend on sex
+const DRI_LIMITS: Record<string, Record<Band, number>> = {
+  sodium: { '9-13': 1800, '14-18': 2300, '19-30': 2300, '31-50': 2300, '51-70': 2300, '71+': 2300 },
+  calcium: { '9-13': 3000, '14-18': 3000, '19-30': 2500, '31-50': 2500, '51-70': 2000, '71+': 2000 },
+  iron: { '9-13': 40, '14-18': 45, '19-30': 45, '31-50': 45, '51-70': 45, '71+': 45 },
+  zinc: { '9-13': 23, '14-18': 34, '19-30': 40, '31-50': 40, '51-70': 40, '71+': 40 },
+  copper: { '9-13': 5, '14-18': 8, '19-30': 10, '31-50': 10, '51-70': 10, '71+': 10 },
+  selenium: { '9-13': 280, '14-18': 400, '19-30': 400, '31-50': 400, '51-70': 400, '71+': 400 },
+  phosphorus: { '9-13': 4000, '14-18': 4000, '19-30': 4000, '31-50': 4000, '51-70': 4000, '71+': 3000 },
+  vitaminC: { '9-13': 1200, '14-18': 1800, '19-30': 2000, '31-50': 2000, '51-70': 2000, '71+': 2000 },
+  vitaminD: { '9-13': 100, '14-18': 100, '19-30': 100, '31-50': 100, '51-70': 100, '71+': 100 },
+};
+
+// Targets and limits for one person. `calories` sets the saturated fat and
+// added sugar caps under the DRI standard (10% of energy each).
+export function referenceIntakes(
+  standard: IntakeStandard,
+  sex: 'male' | 'female',
+  age: number,
+  calories: number
+): Intakes {
+  if (standard === 'fda') return FDA_DAILY_VALUES;
+
+  const band = bandFor(age);
+  const col = sex === 'male' ? 0 : 1;
+  const intakes: Intakes = {};
+  for (const [key, row] of Object.entries(DRI_TARGETS)) {
+    intakes[key] = { target: row[band][col] };
+  }
+  for (const [key, row] of Object.entries(DRI_LIMITS)) {
+    intakes[key] = { ...intakes[key], limit: row[band] };
+  }
+  const kcal = calories > 0 ? calories : 2000;
+  intakes.satfat = { limit: (kcal * 0.1) / 9 };
+  intakes.addedSugar = { limit: (kcal * 0.1) / 4 };
+  return intakes;
+}
+
+// Percent of the target (or of the limit when there is no target)
+export function percentOfIntake(value: number, intake: Intake | undefined): number | null {
+  const basis = intake?.target ?? intake?.limit;
+  return basis ? (value / basis) * 100 : null;
+}
+
+export function isOverLimit(value: number, intake: Intake | undefined): boolean {
+  return intake?.limit !== undefined && value > intake.limit;
+}
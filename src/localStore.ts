@@ -0,0 +1,64 @@
+import {
+  TABLES,
+  applyMutation,
+  matchesFilter,
+  prepareMutation,
+  sortRows,
+  type Filter,
+  type Mutation,
+  type Order,
+  type Row,
+  type TableDriver,
+  type TableName,
+} from './tables';
+
+// === Local driver ===
+// Keeps every table in memory and, when persist is set, writes them through
+// to localStorage so the app works with no backend at all.
+
+const STORAGE_KEY = 'wellness-local-db';
+
+type Tables = Record<TableName, Row[]>;
+
+function emptyTables(): Tables {
+  return Object.fromEntries(TABLES.map((t) => [t, []])) as unknown as Tables;
+}
+
+function load(): Tables {
+  const tables = emptyTables();
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return tables;
+    const saved = JSON.parse(raw) as Partial<Tables>;
+    for (const t of TABLES) {
+      if (Array.isArray(saved[t])) tables[t] = saved[t];
+    }
+  } catch (e) {
+    console.warn('Could not read local data; starting empty', e);
+  }
+  return tables;
+}
+
+export function createLocalDriver(persist: boolean): TableDriver {
+  const canPersist = persist && typeof localStorage !== 'undefined';
+  const tables = canPersist ? load() : emptyTables();
+
+  function save() {
+    if (!canPersist) return;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(tables));
+  }
+
+  return {
+    async select(table: TableName, filter: Filter, order?: Order) {
+      return sortRows(
+        tables[table].filter((r) => matchesFilter(r, filter)),
+        order
+      );
+    },
+    async mutate(mutation: Mutation) {
+      const m = prepareMutation(mutation);
+      tables[m.table] = applyMutation(tables[m.table], m);
+      save();
+    },
+  };
+}
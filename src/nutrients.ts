@@ -0,0 +1,135 @@
+// === Nutrient registry ===
+// Every nutrient the app keeps beyond energy and the three macros. Values are
+// stored per gram of food in `_basePerG.micros` (and food_log.base_per_g)
+// under `key`, in the FDC unit listed here. Adding a nutrient is one entry:
+// parsing, storage, the bulk importer and the nutrient panels all read this
+// list.
+
+export type NutrientGroup = 'carbs' | 'fats' | 'minerals' | 'vitamins' | 'other';
+
+export type NutrientDef = {
+  key: string;
+  label: string;
+  unit: 'g' | 'mg' | 'µg';
+  number: string; // FDC nutrient number, e.g. '291'
+  id: number; // FDC nutrient id, e.g. 1079
+  group: NutrientGroup;
+  labelKey?: string; // key in a branded food's labelNutrients
+  names?: readonly string[]; // name fallback for sources without numbers
+  summary?: boolean; // shown as a chip on every food card
+};
+
+export const NUTRIENT_GROUPS: ReadonlyArray<{ key: NutrientGroup; label: string }> = [
+  { key: 'carbs', label: 'Carbohydrates' },
+  { key: 'fats', label: 'Fats' },
+  { key: 'minerals', label: 'Minerals' },
+  { key: 'vitamins', label: 'Vitamins' },
+  { key: 'other', label: 'Other' },
+];
+
+export const NUTRIENTS: readonly NutrientDef[] = [
+  // The first five keys predate the registry and are stored in existing rows
+  {
+    key: 'fiber',
+    label: 'Fiber',
+    unit: 'g',
+    number: '291',
+    id: 1079,
+    group: 'carbs',
+    labelKey: 'fiber',
+    names: ['fiber', 'dietary fiber', 'total dietary fiber'],
+  },
+  {
+    key: 'sugar',
+    label: 'Sugar',
+    unit: 'g',
+    number: '269',
+    id: 2000,
+    group: 'carbs',
+    labelKey: 'sugars',
+    names: ['sugars, total', 'sugars', 'sugar'],
+    summary: true,
+  },
+  {
+    key: 'satfat',
+    label: 'Sat Fat',
+    unit: 'g',
+    number: '606',
+    id: 1258,
+    group: 'fats',
+    labelKey: 'saturatedFat',
+    names: ['saturated fat', 'fatty acids, total saturated', 'saturatedfat'],
+    summary: true,
+  },
+  {
+    key: 'sodium',
+    label: 'Sodium',
+    unit: 'mg',
+    number: '307',
+    id: 1093,
+    group: 'minerals',
+    labelKey: 'sodium',
+    names: ['sodium'],
+    summary: true,
+  },
+  {
+    key: 'cholesterol',
+    label: 'Cholesterol',
+    unit: 'mg',
+    number: '601',
+    id: 1253,
+    group: 'fats',
+    labelKey: 'cholesterol',
+    names: ['cholesterol'],
+    summary: true,
+  },
+  { key: 'addedSugar', label: 'Added Sugar', unit: 'g', number: '539', id: 1235, group: 'carbs', labelKey: 'addedSugar' },
+  { key: 'transfat', label: 'Trans Fat', unit: 'g', number: '605', id: 1257, group: 'fats', labelKey: 'transFat' },
+  { key: 'monofat', label: 'Mono Fat', unit: 'g', number: '645', id: 1292, group: 'fats' },
+  { key: 'polyfat', label: 'Poly Fat', unit: 'g', number: '646', id: 1293, group: 'fats' },
+  { key: 'potassium', label: 'Potassium', unit: 'mg', number: '306', id: 1092, group: 'minerals', labelKey: 'potassium' },
+  { key: 'calcium', label: 'Calcium', unit: 'mg', number: '301', id: 1087, group: 'minerals', labelKey: 'calcium' },
+  { key: 'iron', label: 'Iron', unit: 'mg', number: '303', id: 1089, group: 'minerals', labelKey: 'iron' },
+  { key: 'magnesium', label: 'Magnesium', unit: 'mg', number: '304', id: 1090, group: 'minerals' },
+  { key: 'phosphorus', label: 'Phosphorus', unit: 'mg', number: '305', id: 1091, group: 'minerals' },
+  { key: 'zinc', label: 'Zinc', unit: 'mg', number: '309', id: 1095, group: 'minerals' },
+  { key: 'copper', label: 'Copper', unit: 'mg', number: '312', id: 1098, group: 'minerals' },
+  { key: 'selenium', label: 'Selenium', unit: 'µg', number: '317', id: 1103, group: 'minerals' },
+  { key: 'vitaminA', label: 'Vitamin A (RAE)', unit: 'µg', number: '320', id: 1106, group: 'vitamins' },
+  { key: 'vitaminC', label: 'Vitamin C', unit: 'mg', number: '401', id: 1162, group: 'vitamins' },
+  { key: 'vitaminD', label: 'Vitamin D', unit: 'µg', number: '328', id: 1114, group: 'vitamins' },
+  { key: 'vitaminE', label: 'Vitamin E', unit: 'mg', number: '323', id: 1109, group: 'vitamins' },
+  { key: 'vitaminK', label: 'Vitamin K', unit: 'µg', number: '430', id: 1185, group: 'vitamins' },
+  { key: 'thiamin', label: 'Thiamin (B1)', unit: 'mg', number: '404', id: 1165, group: 'vitamins' },
+  { key: 'riboflavin', label: 'Riboflavin (B2)', unit: 'mg', number: '405', id: 1166, group: 'vitamins' },
+  { key: 'niacin', label: 'Niacin (B3)', unit: 'mg', number: '406', id: 1167, group: 'vitamins' },
+  { key: 'vitaminB6', label: 'Vitamin B6', unit: 'mg', number: '415', id: 1175, group: 'vitamins' },
+  { key: 'folate', label: 'Folate (DFE)', unit: 'µg', number: '435', id: 1190, group: 'vitamins' },
+  { key: 'vitaminB12', label: 'Vitamin B12', unit: 'µg', number: '418', id: 1178, group: 'vitamins' },
+  { key: 'choline', label: 'Choline', unit: 'mg', number: '421', id: 1180, group: 'vitamins' },
+  { key: 'water', label: 'Water', unit: 'g', number: '255', id: 1051, group: 'other' },
+  { key: 'caffeine', label: 'Caffeine', unit: 'mg', number: '262', id: 1057, group: 'other' },
+  { key: 'alcohol', label: 'Alcohol', unit: 'g', number: '221', id: 1018, group: 'other' },
+];
+
+export function nutrientDef(key: string): NutrientDef | undefined {
+  return NUTRIENTS.find((n) => n.key === key);
+}
+
+export function formatNutrient(value: number, unit: NutrientDef['unit']): string {
+  if (!Number.isFinite(value)) return '0';
+  if (value >= 100 || (unit !== 'g' && value >= 10)) return String(Math.round(value));
+  return (Math.round(value * 10) / 10).toString();
+}
+
+// Adds up micros across foods (each already scaled to its serving)
+export function sumMicros(items: Array<{ micros?: Record<string, number> }>): Record<string, number> {
+  const total: Record<string, number> = {};
+  for (const item of items) {
+    for (const [k, v] of Object.entries(item.micros || {})) {
+      const n = Number(v);
+      if (Number.isFinite(n)) total[k] = (total[k] || 0) + n;
+    }
+  }
+  return total;
+}
@@ -0,0 +1,331 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import {
+  TABLES,
+  matchesFilter,
+  prepareMutation,
+  sortRows,
+  type Filter,
+  type Mutation,
+  type Order,
+  type Row,
+  type TableDriver,
+  type TableName,
+} from './tables';
+
+// === Offline-first Supabase driver ===
+// Every table the app uses is mirrored into IndexedDB. Reads go to Supabase
+// when it is reachable (and refresh the mirror), otherwise they are served
+// from the mirror. Writes are applied to the mirror and sent to Supabase; if
+// the network is down they are queued and replayed in order once it returns.
+
+export type SyncState = {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  lastError: string;
+};
+
+const QUEUE = 'sync_queue';
+const DB_NAME = 'wellness-offline';
+// Bumped whenever TABLES gains a table, so the upgrade creates its store
+const DB_VERSION = 2;
+const RETRY_MS = 30000;
+
+// ===================== Sync status =====================
+let syncState: SyncState = {
+  online: typeof navigator === 'undefined' ? true : navigator.onLine,
+  syncing: false,
+  pending: 0,
+  lastError: '',
+};
+const listeners = new Set<() => void>();
+
+function setSyncState(patch: Partial<SyncState>) {
+  syncState = { ...syncState, ...patch };
+  listeners.forEach((l) => l());
+}
+export function getSyncState(): SyncState {
+  return syncState;
+}
+export function subscribeSyncState(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// ===================== Local mirror (IndexedDB, memory fallback) =====================
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memory = new Map<string, Map<IDBValidKey, Row>>();
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') return resolve(null);
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+      const db = req.result;
+      for (const t of TABLES) {
+        if (!db.objectStoreNames.contains(t)) db.createObjectStore(t, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(QUEUE)) {
+        db.createObjectStore(QUEUE, { keyPath: 'seq', autoIncrement: true });
+      }
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => {
+      console.warn('IndexedDB unavailable; offline data will not survive a reload', req.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+function memoryStore(name: string) {
+  let m = memory.get(name);
+  if (!m) {
+    m = new Map();
+    memory.set(name, m);
+  }
+  return m;
+}
+
+function done(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+async function readAll(name: string): Promise<Row[]> {
+  const db = await openDb();
+  if (!db) return [...memoryStore(name).values()];
+  return new Promise((resolve, reject) => {
+    const req = db.transaction(name, 'readonly').objectStore(name).getAll();
+    req.onsuccess = () => resolve(req.result as Row[]);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+async function writeRows(name: string, put: Row[], remove: IDBValidKey[] = []) {
+  const db = await openDb();
+  if (!db) {
+    const m = memoryStore(name);
+    remove.forEach((k) => m.delete(k));
+    put.forEach((r) => m.set((r.id ?? r.seq) as IDBValidKey, r));
+    return;
+  }
+  const tx = db.transaction(name, 'readwrite');
+  const store = tx.objectStore(name);
+  remove.forEach((k) => store.delete(k));
+  put.forEach((r) => store.put(r));
+  await done(tx);
+}
+
+let memorySeq = 0;
+async function enqueue(mutation: Mutation) {
+  const db = await openDb();
+  if (!db) {
+    memoryStore(QUEUE).set(++memorySeq, { seq: memorySeq, mutation });
+  } else {
+    const tx = db.transaction(QUEUE, 'readwrite');
+    tx.objectStore(QUEUE).add({ mutation, queuedAt: new Date().toISOString() });
+    await done(tx);
+  }
+  setSyncState({ pending: syncState.pending + 1 });
+}
+
+async function queued(): Promise<Array<{ seq: number; mutation: Mutation }>> {
+  const rows = await readAll(QUEUE);
+  return rows
+    .map((r) => ({ seq: Number(r.seq), mutation: r.mutation as Mutation }))
+    .sort((a, b) => a.seq - b.seq);
+}
+
+// ===================== Remote =====================
+// Minimal view of the Supabase query builders; the untyped client's generics
+// do not survive being built up column by column.
+type RemoteResult = { data: Row[] | null; error: unknown; status: number };
+type RemoteQuery = PromiseLike<RemoteResult> & {
+  eq(column: string, value: unknown): RemoteQuery;
+  is(column: string, value: null): RemoteQuery;
+  ilike(column: string, pattern: string): RemoteQuery;
+  gte(column: string, value: string): RemoteQuery;
+  order(column: string, options: { ascending: boolean }): RemoteQuery;
+};
+
+function applyFilter(q: RemoteQuery, filter: Filter): RemoteQuery {
+  for (const [col, v] of Object.entries(filter)) {
+    if (v === null) q = q.is(col, null);
+    else if (typeof v === 'object') q = 'gte' in v ? q.gte(col, v.gte) : q.ilike(col, v.ilike);
+    else q = q.eq(col, v);
+  }
+  return q;
+}
+
+function runRemote(client: SupabaseClient, m: Mutation): PromiseLike<RemoteResult> {
+  const from = client.from(m.table);
+  if (m.op === 'insert') return from.insert(m.rows) as unknown as RemoteQuery;
+  if (m.op === 'update') {
+    return applyFilter(from.update(m.values) as unknown as RemoteQuery, m.filter);
+  }
+  return applyFilter(from.delete() as unknown as RemoteQuery, m.filter);
+}
+
+// A failed fetch (no network, DNS, CORS) comes back from supabase-js as status 0
+function isNetworkFailure(res: RemoteResult) {
+  return res.status === 0;
+}
+
+// Errors that may clear up on their own: a token not yet refreshed after
+// reconnecting, a timeout, rate limiting or a server fault
+function isRetryable(res: RemoteResult) {
+  return [401, 403, 408, 429].includes(res.status) || res.status >= 500;
+}
+
+async function applyLocal(m: Mutation) {
+  if (m.op === 'insert') return writeRows(m.table, m.rows);
+  const rows = (await readAll(m.table)).filter((r) => matchesFilter(r, m.filter));
+  if (m.op === 'update') {
+    return writeRows(m.table, rows.map((r) => ({ ...r, ...m.values })));
+  }
+  return writeRows(m.table, [], rows.map((r) => r.id as IDBValidKey));
+}
+
+// ===================== Driver =====================
+let replayQueueImpl: (() => Promise<void>) | null = null;
+
+// Retries queued changes now; a no-op when no Supabase driver exists
+export function replayQueue(): Promise<void> {
+  return replayQueueImpl ? replayQueueImpl() : Promise.resolve();
+}
+
+export function createSupabaseDriver(client: SupabaseClient): TableDriver {
+  let replaying: Promise<void> | null = null;
+
+  const replay = (): Promise<void> => {
+    if (!replaying) {
+      replaying = doReplay().finally(() => {
+        replaying = null;
+      });
+    }
+    return replaying;
+  };
+
+  // Replaces this device's copy of a table with the server's, then reapplies
+  // whatever is still queued for it
+  async function resyncTable(table: TableName) {
+    const res = await (client.from(table).select('*') as unknown as RemoteQuery);
+    if (isNetworkFailure(res) || res.error) {
+      console.warn('Could not refresh offline copy of', table, res.error);
+      return;
+    }
+    const stale = await readAll(table);
+    await writeRows(table, res.data || [], stale.map((r) => r.id as IDBValidKey));
+    for (const { mutation } of await queued()) {
+      if (mutation.table === table) await applyLocal(mutation);
+    }
+  }
+
+  async function doReplay() {
+    const entries = await queued();
+    setSyncState({ pending: entries.length });
+    if (entries.length === 0) return;
+    setSyncState({ syncing: true });
+    const rejected = new Set<TableName>();
+    try {
+      for (const { seq, mutation } of entries) {
+        const res = await runRemote(client, mutation);
+        if (isNetworkFailure(res)) {
+          setSyncState({ online: false });
+          return;
+        }
+        if (res.error && isRetryable(res)) {
+          // Keep it, and everything behind it, for the next retry
+          console.warn('Queued change will be retried:', res.status, res.error);
+          setSyncState({ online: true });
+          return;
+        }
+        if (res.error) {
+          // The server will never accept this change; drop it so it does not
+          // block everything queued behind it, and later bring the local
+          // copy of its table back in line with the server.
+          console.error('Dropping queued change rejected by the server:', res.error, mutation);
+          setSyncState({ lastError: `A change to ${mutation.table} could not be synced.` });
+          rejected.add(mutation.table);
+        }
+        await writeRows(QUEUE, [], [seq]);
+        setSyncState({ online: true, pending: Math.max(0, syncState.pending - 1) });
+      }
+    } finally {
+      for (const table of rejected) {
+        await resyncTable(table).catch((e) => console.warn('Could not refresh', table, e));
+      }
+      setSyncState({ syncing: false });
+    }
+  }
+
+  async function select(table: TableName, filter: Filter, order?: Order): Promise<Row[]> {
+    if (syncState.pending > 0) await replay();
+    if (syncState.pending === 0 && navigator.onLine) {
+      let q = applyFilter(client.from(table).select('*') as unknown as RemoteQuery, filter);
+      if (order) q = q.order(order.column, { ascending: order.ascending });
+      const res = await q;
+      if (!isNetworkFailure(res)) {
+        if (res.error) throw res.error;
+        const data = res.data || [];
+        try {
+          const stale = (await readAll(table)).filter((r) => matchesFilter(r, filter));
+          await writeRows(table, data, stale.map((r) => r.id as IDBValidKey));
+        } catch (e) {
+          console.warn('Could not update offline copy of', table, e);
+        }
+        setSyncState({ online: true });
+        return data;
+      }
+      setSyncState({ online: false });
+    }
+    const rows = (await readAll(table)).filter((r) => matchesFilter(r, filter));
+    return sortRows(rows, order);
+  }
+
+  async function mutate(mutation: Mutation): Promise<void> {
+    const m = prepareMutation(mutation);
+    // Anything already waiting must reach the server first, so new writes join the queue
+    if (syncState.pending === 0 && navigator.onLine) {
+      const res = await runRemote(client, m);
+      if (!isNetworkFailure(res)) {
+        if (res.error) throw res.error;
+        try {
+          await applyLocal(m);
+        } catch (e) {
+          console.warn('Could not update offline copy of', m.table, e);
+        }
+        setSyncState({ online: true });
+        return;
+      }
+      setSyncState({ online: false });
+    }
+    await applyLocal(m);
+    await enqueue(m);
+    if (navigator.onLine) replay().catch((e) => console.warn('Sync failed', e));
+  }
+
+  replayQueueImpl = replay;
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => {
+      setSyncState({ online: true });
+      replay().catch((e) => console.warn('Sync failed', e));
+    });
+    window.addEventListener('offline', () => setSyncState({ online: false }));
+    setInterval(() => {
+      if (syncState.pending > 0 && navigator.onLine) {
+        replay().catch((e) => console.warn('Sync retry failed', e));
+      }
+    }, RETRY_MS);
+    replay().catch((e) => console.warn('Initial sync failed', e));
+  }
+
+  return { select, mutate };
+}
@@ -0,0 +1,150 @@
+import { ff, pf, wf } from './factors';
+
+// === Day planner ===
+// Finds gram amounts for a pool of foods so the day lands on a calorie target
+// with the lowest Wellness Factor (WF = kcal/fiber + kcal/protein) it can
+// reach, keeping every food between its min and max.
+//
+// WF is not convex in the amounts, so this is a local search: start from an
+// even split of the target, then keep taking the best single-food step or
+// calorie-neutral swap between two foods, shrinking the step when nothing
+// improves. Missing the target is penalized, so the search trades a fraction
+// of a percent of calories at most.
+//
+// Callers plan against what is left of the day's target, not the whole of it.
+
+export type PlanFood = {
+  id: string;
+  // Per gram
+  kcal: number;
+  protein: number;
+  fiber: number;
+  // Grams
+  min: number;
+  max: number;
+};
+
+export type Plan = {
+  grams: Record<string, number>;
+  kcal: number;
+  protein: number;
+  fiber: number;
+  wf: number;
+};
+
+// Foods one plan may use. Each pass tries every pair of foods, so the work
+// grows with the square of the pool.
+export const MAX_PLAN_FOODS = 15;
+
+const STEPS = [100, 50, 20, 10, 5, 1];
+const MAX_PASSES = 200;
+// Squared relative calorie miss; 1% off costs 10 WF points
+const TARGET_WEIGHT = 100000;
+// Stands in for an infinite WF so plans without fiber or protein still compare
+const NO_WF = 1e6;
+// Longest stretch of searching before the browser gets a turn, in ms
+const SLICE_MS = 30;
+
+type Totals = { kcal: number; protein: number; fiber: number };
+
+function totalsFor(foods: PlanFood[], grams: number[]): Totals {
+  let kcal = 0,
+    protein = 0,
+    fiber = 0;
+  foods.forEach((f, i) => {
+    kcal += f.kcal * grams[i];
+    protein += f.protein * grams[i];
+    fiber += f.fiber * grams[i];
+  });
+  return { kcal, protein, fiber };
+}
+
+// Totals after changing one food by `grams`
+function shift(t: Totals, f: PlanFood, grams: number): Totals {
+  return {
+    kcal: t.kcal + f.kcal * grams,
+    protein: t.protein + f.protein * grams,
+    fiber: t.fiber + f.fiber * grams,
+  };
+}
+
+function planWf(t: Totals) {
+  return wf(ff(t.kcal, t.fiber), pf(t.kcal, t.protein));
+}
+
+function cost(t: Totals, target: number) {
+  const miss = (t.kcal - target) / target;
+  return Math.min(planWf(t), NO_WF) + TARGET_WEIGHT * miss * miss;
+}
+
+function clamp(f: PlanFood, g: number) {
+  return Math.min(f.max, Math.max(f.min, g));
+}
+
+function nextTask() {
+  return new Promise<void>((resolve) => setTimeout(resolve, 0));
+}
+
+type Move = { totals: Totals; grams: Array<[number, number]> };
+
+// Moves are scored from running totals, so each costs O(1) rather than a full
+// re-sum, and the search yields to the browser every SLICE_MS
+export async function planDay(foods: PlanFood[], targetKcal: number): Promise<Plan> {
+  const target = Math.max(1, targetKcal);
+  // Each food starts with an equal share of the calories
+  const share = target / Math.max(1, foods.length);
+  const grams = foods.map((f) => clamp(f, f.kcal > 0 ? share / f.kcal : f.min));
+  let totals = totalsFor(foods, grams);
+  let best = cost(totals, target);
+  let sliceStart = Date.now();
+
+  for (const step of STEPS) {
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+      let move: Move | null = null;
+      const tryMove = (next: Totals, changes: Array<[number, number]>) => {
+        const c = cost(next, target);
+        if (c < best - 1e-9) {
+          best = c;
+          move = { totals: next, grams: changes };
+        }
+      };
+      for (let i = 0; i < foods.length; i++) {
+        for (const d of [step, -step]) {
+          const g = clamp(foods[i], grams[i] + d);
+          if (g === grams[i]) continue;
+          tryMove(shift(totals, foods[i], g - grams[i]), [[i, g]]);
+        }
+        // Shift calories from j to i
+        const gi = clamp(foods[i], grams[i] + step);
+        const added = (gi - grams[i]) * foods[i].kcal;
+        if (added <= 0) continue;
+        const raised = shift(totals, foods[i], gi - grams[i]);
+        for (let j = 0; j < foods.length; j++) {
+          if (j === i || foods[j].kcal <= 0) continue;
+          const gj = clamp(foods[j], grams[j] - added / foods[j].kcal);
+          if (gj === grams[j]) continue;
+          tryMove(shift(raised, foods[j], gj - grams[j]), [
+            [i, gi],
+            [j, gj],
+          ]);
+        }
+      }
+      const chosen = move as Move | null;
+      if (!chosen) break;
+      totals = chosen.totals;
+      chosen.grams.forEach(([k, g]) => (grams[k] = g));
+      if (Date.now() - sliceStart > SLICE_MS) {
+        await nextTask();
+        sliceStart = Date.now();
+      }
+    }
+  }
+
+  const rounded = foods.map((f, i) => clamp(f, Math.round(grams[i])));
+  const final = totalsFor(foods, rounded);
+  return {
+    grams: Object.fromEntries(foods.map((f, i) => [f.id, rounded[i]])),
+    ...final,
+    wf: planWf(final),
+  };
+}
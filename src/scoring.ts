@@ -0,0 +1,116 @@
+import { NUTRIENTS } from './nutrients';
+
+// === Scoring profiles ===
+// A profile sets the thresholds the FF/PF/WF/EF badges are judged against
+// (a factor is OK when it is below its threshold) and may add extra factors.
+// An extra factor works like FF does with fiber: calories divided by the amount
+// of one registry nutrient (nutrients.ts), in that nutrient's unit.
+//
+// Users keep their own list of profiles in user_settings; until they edit one
+// the built-in list below is used.
+
+export type CoreFactor = 'FF' | 'PF' | 'WF' | 'EF';
+export type FactorValues = Record<CoreFactor, number>;
+export type ExtraFactor = { label: string; nutrient: string; threshold: number };
+export type ScoringProfile = {
+  id: string;
+  name: string;
+  thresholds: FactorValues;
+  extras: ExtraFactor[];
+};
+export type FactorScore = { label: string; value: number; threshold: number };
+
+export const CORE_FACTORS: ReadonlyArray<{ key: CoreFactor; label: string }> = [
+  { key: 'FF', label: 'Fiber Factor' },
+  { key: 'PF', label: 'Protein Factor' },
+  { key: 'WF', label: 'Wellness Factor' },
+  { key: 'EF', label: 'Energy Factor' },
+];
+
+export const DEFAULT_PROFILE_ID = 'standard';
+
+export const BUILT_IN_PROFILES: readonly ScoringProfile[] = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    thresholds: { FF: 50, PF: 30, WF: 80, EF: 1 },
+    extras: [],
+  },
+  {
+    id: 'athlete',
+    name: 'Athlete',
+    thresholds: { FF: 60, PF: 20, WF: 80, EF: 1.5 },
+    extras: [],
+  },
+  {
+    id: 'weight_loss',
+    name: 'Weight loss',
+    thresholds: { FF: 40, PF: 25, WF: 65, EF: 0.8 },
+    extras: [],
+  },
+];
+
+function positive(x: unknown, fallback: number): number {
+  const n = Number(x);
+  return Number.isFinite(n) && n > 0 ? n : fallback;
+}
+
+// Reads the stored jsonb list, dropping anything malformed. An empty or
+// missing list means the built-in profiles.
+export function normalizeProfiles(raw: unknown): ScoringProfile[] {
+  if (!Array.isArray(raw)) return [...BUILT_IN_PROFILES];
+  const seen = new Set<string>();
+  const profiles: ScoringProfile[] = [];
+  for (const p of raw) {
+    if (!p || typeof p !== 'object') continue;
+    const id = String(p.id ?? '').trim();
+    if (!id || seen.has(id)) continue;
+    seen.add(id);
+    const base = BUILT_IN_PROFILES[0].thresholds;
+    const t = p.thresholds || {};
+    profiles.push({
+      id,
+      name: String(p.name ?? '').trim() || id,
+      thresholds: {
+        FF: positive(t.FF, base.FF),
+        PF: positive(t.PF, base.PF),
+        WF: positive(t.WF, base.WF),
+        EF: positive(t.EF, base.EF),
+      },
+      extras: (Array.isArray(p.extras) ? p.extras : [])
+        .filter((x: ExtraFactor) => NUTRIENTS.some((n) => n.key === x?.nutrient))
+        .map((x: ExtraFactor) => ({
+          label: String(x.label ?? '').trim() || x.nutrient,
+          nutrient: x.nutrient,
+          threshold: positive(x.threshold, 1),
+        })),
+    });
+  }
+  return profiles.length > 0 ? profiles : [...BUILT_IN_PROFILES];
+}
+
+export function findProfile(profiles: ScoringProfile[], id: string): ScoringProfile {
+  return profiles.find((p) => p.id === id) || profiles[0] || BUILT_IN_PROFILES[0];
+}
+
+// Extra factors for an amount of food with `kcal` calories
+export function extraScores(
+  profile: ScoringProfile,
+  kcal: number,
+  micros: Record<string, number> | undefined
+): FactorScore[] {
+  return profile.extras.map((x) => {
+    const amount = Number(micros?.[x.nutrient]) || 0;
+    return {
+      label: x.label,
+      value: amount > 0 ? kcal / amount : Infinity,
+      threshold: x.threshold,
+    };
+  });
+}
+
+// The overall verdict behind card backgrounds and exports: WF plus every
+// extra factor must be under its threshold
+export function isScoreOk(profile: ScoringProfile, values: FactorValues, extras: FactorScore[]) {
+  return values.WF < profile.thresholds.WF && extras.every((x) => x.value < x.threshold);
+}
@@ -0,0 +1,154 @@
+import { G_PER_LB, G_PER_OZ, type Units } from './units';
+
+// === Serving units ===
+// Amounts are stored in grams; a unit is just a label and how many grams one
+// of it weighs. Every food gets all four mass units; the selected Units only
+// decide which comes first and is the default. FDC foods add their household
+// measures (`foodPortions`), branded foods their label serving, and ml when a
+// density is known (from a volume portion) or the label serving is in ml.
+
+export type ServingUnit = { key: string; label: string; grams: number };
+// What a log item remembers: its unit plus the food's own units, since the
+// FDC document is not kept with the log row. `chosen` marks a unit the user
+// picked; any other mass unit follows the Units toggle.
+export type ItemUnit = ServingUnit & { portions: ServingUnit[]; chosen?: boolean };
+
+export const GRAM_UNIT: ServingUnit = { key: 'g', label: 'g', grams: 1 };
+const KG_UNIT: ServingUnit = { key: 'kg', label: 'kg', grams: 1000 };
+const OZ_UNIT: ServingUnit = { key: 'oz', label: 'oz', grams: G_PER_OZ };
+const LB_UNIT: ServingUnit = { key: 'lb', label: 'lb', grams: G_PER_LB };
+// The first one is the default for foods without a chosen unit
+export const MASS_UNITS: Record<Units, readonly ServingUnit[]> = {
+  us: [OZ_UNIT, LB_UNIT, GRAM_UNIT, KG_UNIT],
+  metric: [GRAM_UNIT, KG_UNIT, OZ_UNIT, LB_UNIT],
+};
+
+// Millilitres per volume measure, for working out density from a portion
+const ML_PER: Record<string, number> = {
+  ml: 1,
+  milliliter: 1,
+  millilitre: 1,
+  l: 1000,
+  liter: 1000,
+  litre: 1000,
+  tsp: 4.92892,
+  teaspoon: 4.92892,
+  tbsp: 14.7868,
+  tablespoon: 14.7868,
+  'fl oz': 29.5735,
+  'fluid ounce': 29.5735,
+  cup: 236.588,
+  pint: 473.176,
+  quart: 946.353,
+};
+
+function volumeMl(name: string): number | undefined {
+  const n = name.toLowerCase().trim();
+  const hit = Object.keys(ML_PER)
+    .sort((a, b) => b.length - a.length)
+    .find((k) => n === k || n.startsWith(`${k} `) || n.startsWith(`${k},`) || n === `${k}s`);
+  return hit ? ML_PER[hit] : undefined;
+}
+
+function isMlUnit(unit: unknown) {
+  const u = String(unit ?? '').toLowerCase();
+  return u === 'ml' || u === 'mlt';
+}
+function isGramUnit(unit: unknown) {
+  const u = String(unit ?? '').toLowerCase();
+  return u === 'g' || u === 'grm';
+}
+
+// The parts of an FDC food document that describe servings
+type FdcPortion = {
+  id?: number;
+  gramWeight?: number;
+  amount?: number;
+  modifier?: string;
+  portionDescription?: string;
+  measureUnit?: { name?: string };
+};
+type FdcServingInfo = {
+  foodPortions?: FdcPortion[];
+  servingSize?: number;
+  servingSizeUnit?: string;
+  householdServingFullText?: string;
+};
+
+export function foodPortions(food: FdcServingInfo | null | undefined): ServingUnit[] {
+  const units: ServingUnit[] = [];
+  let density: number | undefined;
+
+  const portions = Array.isArray(food?.foodPortions) ? food.foodPortions : [];
+  portions.forEach((p, i) => {
+    const gramWeight = Number(p?.gramWeight);
+    const amount = Number(p?.amount) > 0 ? Number(p.amount) : 1;
+    if (!(gramWeight > 0)) return;
+    const measure = String(p?.measureUnit?.name ?? '');
+    const name =
+      measure && measure !== 'undetermined'
+        ? [measure, p?.modifier].filter(Boolean).join(', ')
+        : String(p?.modifier || p?.portionDescription || '')
+            .replace(/^1\s+/, '')
+            .trim();
+    if (!name || name.toLowerCase() === 'quantity not specified') return;
+    const grams = gramWeight / amount;
+    units.push({ key: `portion-${p?.id ?? i}`, label: name, grams });
+    const ml = volumeMl(measure && measure !== 'undetermined' ? measure : name);
+    if (ml && density === undefined) density = grams / ml;
+  });
+
+  const size = Number(food?.servingSize);
+  if (size > 0 && (isGramUnit(food?.servingSizeUnit) || isMlUnit(food?.servingSizeUnit))) {
+    const liquid = isMlUnit(food?.servingSizeUnit);
+    // Without a measured density a liquid is taken to weigh like water
+    if (liquid && density === undefined) density = 1;
+    const grams = liquid ? size * (density as number) : size;
+    const household = String(food?.householdServingFullText ?? '').trim();
+    units.unshift({
+      key: 'serving',
+      label: household ? `serving (${household})` : `serving (${size} ${liquid ? 'ml' : 'g'})`,
+      grams,
+    });
+  }
+
+  if (density !== undefined) units.push({ key: 'ml', label: 'ml', grams: density });
+  return units;
+}
+
+export function unitOptions(units: Units, portions: readonly ServingUnit[] = []): ServingUnit[] {
+  return [...MASS_UNITS[units], ...portions];
+}
+
+// The unit an item is shown in: a chosen unit or household measure as is, and
+// otherwise the Units default, so unpicked grams read as ounces in US
+export function displayUnit(units: Units, unit: ItemUnit | undefined): ServingUnit {
+  const fallback = MASS_UNITS[units][0];
+  if (!unit) return fallback;
+  const isMass = MASS_UNITS[units].some((u) => u.key === unit.key);
+  return isMass && !unit.chosen ? fallback : unit;
+}
+
+export function toGrams(quantity: number, unit: ServingUnit): number {
+  return quantity * unit.grams;
+}
+export function fromGrams(grams: number, unit: ServingUnit): number {
+  return unit.grams > 0 ? grams / unit.grams : grams;
+}
+
+// Reads a stored `unit` value back; anything unusable means grams
+export function parseItemUnit(raw: unknown): ItemUnit | undefined {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const u = raw as Partial<ItemUnit>;
+  if (typeof u.key !== 'string' || !(Number(u.grams) > 0)) return undefined;
+  const portions = (Array.isArray(u.portions) ? u.portions : []).filter(
+    (p) => p && typeof p.key === 'string' && Number(p.grams) > 0
+  );
+  return {
+    key: u.key,
+    label: String(u.label ?? u.key),
+    grams: Number(u.grams),
+    portions,
+    ...(u.chosen ? { chosen: true } : {}),
+  };
+}
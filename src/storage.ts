@@ -0,0 +1,56 @@
+import { createLocalDriver } from './localStore';
+import { createSupabaseDriver } from './offlineStore';
+import { isSupabaseConfigured, supabase } from './supabaseClient';
+import type { Filter, Mutation, Order, Row, TableDriver, TableName } from './tables';
+
+// === Storage backend selection ===
+// VITE_STORAGE_BACKEND picks where data lives:
+//   supabase - Supabase with auth and an offline mirror (default when configured)
+//   local    - this browser only, kept in localStorage (default otherwise)
+//   memory   - nothing is saved; handy for demos and trying the app out
+
+export type StorageBackend = 'supabase' | 'local' | 'memory';
+
+// Owner of every row when there is no signed-in user
+export const LOCAL_USER_ID = '00000000-0000-0000-0000-000000000000';
+
+function pickBackend(): StorageBackend {
+  const requested = import.meta.env.VITE_STORAGE_BACKEND as string | undefined;
+  if (requested === 'local' || requested === 'memory') return requested;
+  if (requested && requested !== 'supabase') {
+    console.warn(`Unknown VITE_STORAGE_BACKEND "${requested}"; ignoring it`);
+  }
+  if (isSupabaseConfigured) return 'supabase';
+  if (requested === 'supabase') {
+    console.warn('Supabase is not configured; storing data locally instead');
+  }
+  return 'local';
+}
+
+export const backend: StorageBackend = pickBackend();
+
+const driver: TableDriver =
+  backend === 'supabase' && supabase
+    ? createSupabaseDriver(supabase)
+    : createLocalDriver(backend === 'local');
+
+export async function selectRows(
+  table: TableName,
+  filter: Filter,
+  order?: Order
+): Promise<{ data: Row[] | null; error: unknown }> {
+  try {
+    return { data: await driver.select(table, filter, order), error: null };
+  } catch (error) {
+    return { data: null, error };
+  }
+}
+
+export async function mutate(mutation: Mutation): Promise<{ error: unknown }> {
+  try {
+    await driver.mutate(mutation);
+    return { error: null };
+  } catch (error) {
+    return { error };
+  }
+}
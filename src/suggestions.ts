@@ -0,0 +1,81 @@
+import { ef, ff, pf, wf } from './factors';
+
+// === "Fix my day" suggestions ===
+// Tries adding each candidate food to the day at a few amounts, or swapping it
+// in for one logged food, and keeps the changes that leave WF under the
+// threshold without going over the calorie target. When nothing gets there,
+// the changes that lower WF the most are offered instead.
+
+export type DayAmounts = { kcal: number; protein: number; fiber: number; mass: number };
+export type DayFactors = DayAmounts & { FF: number; PF: number; WF: number; EF: number };
+// Per gram
+export type SuggestionFood = { id: string; kcal: number; protein: number; fiber: number };
+// A food already in the log, with its logged amounts; `foodId` matches the
+// candidate for the same food so it is not swapped for itself
+export type LoggedFood = DayAmounts & { id: string; foodId: string };
+
+export type Suggestion = {
+  foodId: string;
+  grams: number;
+  // The logged food it replaces; none for an addition
+  replaces?: string;
+  after: DayFactors;
+  // WF ends under the threshold
+  fixes: boolean;
+};
+
+export const SUGGESTION_GRAMS = [50, 100, 150, 200, 300];
+
+export function dayFactors(d: DayAmounts): DayFactors {
+  const FF = ff(d.kcal, d.fiber),
+    PF = pf(d.kcal, d.protein);
+  return { ...d, FF, PF, WF: wf(FF, PF), EF: ef(d.kcal, d.mass) };
+}
+
+export function suggestFixes(
+  day: DayAmounts,
+  logged: LoggedFood[],
+  foods: SuggestionFood[],
+  { target, wfThreshold, limit = 5 }: { target: number; wfThreshold: number; limit?: number }
+): Suggestion[] {
+  const current = dayFactors(day).WF;
+  // Best amount per food and change, so one food does not fill the list
+  const best = new Map<string, Suggestion>();
+  const consider = (s: Suggestion) => {
+    if (s.after.kcal > target || !(s.after.WF < current)) return;
+    const key = `${s.foodId}|${s.replaces ?? ''}`;
+    const prev = best.get(key);
+    if (!prev || s.after.WF < prev.after.WF) best.set(key, s);
+  };
+
+  for (const food of foods) {
+    for (const grams of SUGGESTION_GRAMS) {
+      const added = {
+        kcal: food.kcal * grams,
+        protein: food.protein * grams,
+        fiber: food.fiber * grams,
+        mass: grams,
+      };
+      for (const out of [null, ...logged]) {
+        if (out && out.foodId === food.id) continue;
+        const after = dayFactors({
+          kcal: day.kcal + added.kcal - (out?.kcal ?? 0),
+          protein: day.protein + added.protein - (out?.protein ?? 0),
+          fiber: day.fiber + added.fiber - (out?.fiber ?? 0),
+          mass: day.mass + added.mass - (out?.mass ?? 0),
+        });
+        consider({
+          foodId: food.id,
+          grams,
+          replaces: out?.id,
+          after,
+          fixes: after.WF < wfThreshold,
+        });
+      }
+    }
+  }
+
+  const ranked = [...best.values()].sort((a, b) => a.after.WF - b.after.WF);
+  const fixes = ranked.filter((s) => s.fixes);
+  return (fixes.length > 0 ? fixes : ranked).slice(0, limit);
+}
@@ -0,0 +1,87 @@
+// === Table model shared by the storage drivers ===
+// The app's data is five flat tables. Drivers (Supabase with an offline
+// mirror, localStorage, memory) all speak this small vocabulary of filters
+// and mutations so the storage layer above them is written once.
+
+export type TableName =
+  | 'user_settings'
+  | 'food_log'
+  | 'favorites'
+  | 'custom_foods'
+  | 'body_metrics';
+// Rows are untyped, exactly as the untyped Supabase client returns them;
+// callers narrow the columns they read.
+export type Row = Record<string, unknown>;
+// { gte } keeps rows whose column sorts at or after the value, such as recent dates
+export type FilterValue = string | number | boolean | null | { ilike: string } | { gte: string };
+export type Filter = Record<string, FilterValue>;
+export type Order = { column: string; ascending: boolean };
+
+export type Mutation =
+  | { table: TableName; op: 'insert'; rows: Row[] }
+  | { table: TableName; op: 'update'; filter: Filter; values: Row }
+  | { table: TableName; op: 'delete'; filter: Filter };
+
+export interface TableDriver {
+  select(table: TableName, filter: Filter, order?: Order): Promise<Row[]>;
+  mutate(mutation: Mutation): Promise<void>;
+}
+
+export const TABLES: readonly TableName[] = [
+  'user_settings',
+  'food_log',
+  'favorites',
+  'custom_foods',
+  'body_metrics',
+];
+
+function likeToRegExp(pattern: string) {
+  const body = pattern
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/%/g, '.*')
+    .replace(/_/g, '.');
+  return new RegExp(`^${body}$`, 'i');
+}
+
+export function matchesFilter(row: Row, filter: Filter) {
+  return Object.entries(filter).every(([col, v]) => {
+    if (v && typeof v === 'object') {
+      if ('gte' in v) return String(row[col] ?? '') >= v.gte;
+      return likeToRegExp(v.ilike).test(String(row[col] ?? ''));
+    }
+    return (row[col] ?? null) === v;
+  });
+}
+
+export function sortRows(rows: Row[], order?: Order): Row[] {
+  if (!order) return rows;
+  const dir = order.ascending ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const x = a[order.column] ?? '';
+    const y = b[order.column] ?? '';
+    return x < y ? -dir : x > y ? dir : 0;
+  });
+}
+
+// Inserted rows get their primary key and timestamp on the client so every
+// copy of a row agrees on them, even when the insert is replayed later.
+export function prepareMutation(m: Mutation): Mutation {
+  if (m.op !== 'insert') return m;
+  const now = new Date().toISOString();
+  return {
+    ...m,
+    rows: m.rows.map((r) => ({ id: crypto.randomUUID(), created_at: now, ...r })),
+  };
+}
+
+// Applies a mutation to an in-memory copy of a table
+export function applyMutation(rows: Row[], m: Mutation): Row[] {
+  if (m.op === 'insert') {
+    const ids = new Set(m.rows.map((r) => r.id));
+    return [...rows.filter((r) => !ids.has(r.id)), ...m.rows];
+  }
+  if (m.op === 'update') {
+    return rows.map((r) => (matchesFilter(r, m.filter) ? { ...r, ...m.values } : r));
+  }
+  return rows.filter((r) => !matchesFilter(r, m.filter));
+}
@@ -0,0 +1,95 @@
+// === Display units ===
+// Everything is stored and computed in grams, centimetres, kilograms and kcal.
+// The header Units toggle and the energy unit setting only change how values
+// are shown and typed in; every conversion between the two goes through here.
+
+export type Units = 'us' | 'metric';
+export type EnergyUnit = 'kcal' | 'kj';
+export type DisplayUnits = { units: Units; energy: EnergyUnit };
+
+export const ENERGY_UNITS: ReadonlyArray<{ key: EnergyUnit; label: string }> = [
+  { key: 'kcal', label: 'kcal' },
+  { key: 'kj', label: 'kJ' },
+];
+export function isEnergyUnit(x: unknown): x is EnergyUnit {
+  return ENERGY_UNITS.some((u) => u.key === x);
+}
+
+export const G_PER_OZ = 28.349523125;
+export const G_PER_LB = 453.59237;
+export const KG_PER_LB = G_PER_LB / 1000;
+export const CM_PER_IN = 2.54;
+export const IN_PER_FT = 12;
+export const KJ_PER_KCAL = 4.184;
+
+// Largest amount of one food a log entry or custom food may hold
+export const MAX_FOOD_GRAMS = 10000;
+
+// ----- Body -----
+export function lbToKg(lb: number) {
+  return lb * KG_PER_LB;
+}
+export function kgToLb(kg: number) {
+  return kg / KG_PER_LB;
+}
+export function ftInToCm(ft: number, inches: number) {
+  return (ft * IN_PER_FT + inches) * CM_PER_IN;
+}
+// Whole feet and inches to a tenth, carrying 12 in into the feet
+export function cmToFtIn(cm: number): { ft: number; inches: number } {
+  const total = Math.round((cm / CM_PER_IN) * 10) / 10;
+  const ft = Math.floor(total / IN_PER_FT);
+  return { ft, inches: Math.round((total - ft * IN_PER_FT) * 10) / 10 };
+}
+export function isUnits(x: unknown): x is Units {
+  return x === 'us' || x === 'metric';
+}
+export function weightUnit(units: Units): 'lb' | 'kg' {
+  return units === 'us' ? 'lb' : 'kg';
+}
+export function weightValue(kg: number, units: Units) {
+  return units === 'us' ? kgToLb(kg) : kg;
+}
+export function weightToKg(value: number, units: Units) {
+  return units === 'us' ? lbToKg(value) : value;
+}
+// Body lengths such as waist: inches or centimetres
+export function lengthUnit(units: Units): 'in' | 'cm' {
+  return units === 'us' ? 'in' : 'cm';
+}
+export function lengthValue(cm: number, units: Units) {
+  return units === 'us' ? cm / CM_PER_IN : cm;
+}
+export function lengthToCm(value: number, units: Units) {
+  return units === 'us' ? value * CM_PER_IN : value;
+}
+
+// ----- Food mass -----
+export function massUnit(units: Units): 'g' | 'oz' {
+  return units === 'us' ? 'oz' : 'g';
+}
+export function massValue(grams: number, units: Units) {
+  return units === 'us' ? grams / G_PER_OZ : grams;
+}
+export function massToGrams(value: number, units: Units) {
+  return units === 'us' ? value * G_PER_OZ : value;
+}
+// Whole grams; ounces to a tenth
+export function formatMass(grams: number, units: Units) {
+  const v = massValue(grams, units);
+  return `${units === 'us' ? Math.round(v * 10) / 10 : Math.round(v)} ${massUnit(units)}`;
+}
+
+// ----- Energy -----
+export function energyLabel(unit: EnergyUnit) {
+  return unit === 'kj' ? 'kJ' : 'kcal';
+}
+export function energyValue(kcal: number, unit: EnergyUnit) {
+  return unit === 'kj' ? kcal * KJ_PER_KCAL : kcal;
+}
+export function energyToKcal(value: number, unit: EnergyUnit) {
+  return unit === 'kj' ? value / KJ_PER_KCAL : value;
+}
+export function formatEnergy(kcal: number, unit: EnergyUnit) {
+  return `${Math.round(energyValue(kcal, unit))} ${energyLabel(unit)}`;
+}
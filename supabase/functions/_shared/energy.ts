@@ -0,0 +1,30 @@
+// === Food energy ===
+// FoodData Central reports energy under several nutrients. Branded, SR Legacy
+// and Survey foods list Energy (1008); Foundation foods often list only the
+// Atwater energies, with food-specific (2048) or general (2047) factors.
+// Without any of them, energy is worked out from the macros at 4/9/4 kcal/g.
+//
+// Shared by the app (which imports it from here) and the build-food-index
+// edge function, so both give a food the same calories.
+
+export const ENERGY_NUTRIENTS = {
+  energy: { id: 1008, number: '208' },
+  atwaterSpecific: { id: 2048, number: '958' },
+  atwaterGeneral: { id: 2047, number: '957' },
+} as const;
+
+export type EnergySources = {
+  energy: number;
+  atwaterSpecific: number;
+  atwaterGeneral: number;
+  protein: number;
+  fat: number;
+  carbs: number;
+};
+
+// kcal for the same basis as the values passed in
+export function resolveEnergy(v: EnergySources): number {
+  return (
+    v.energy || v.atwaterSpecific || v.atwaterGeneral || v.protein * 4 + v.fat * 9 + v.carbs * 4
+  );
+}
@@ -0,0 +1,127 @@
+// === Food index builder ===
+// Pages through USDA's /foods/list for the Foundation, SR Legacy and
+// Survey (FNDDS) datasets and upserts per-100 g calories, macros, fiber and
+// the WF/EF factors into food_index, which WF and EF modes query directly.
+//
+// Each call processes at most `maxPages` pages of one dataset so it stays
+// inside the edge runtime's time limit, and returns where to resume:
+//
+//   curl -X POST .../functions/v1/build-food-index \
+//     -H "Authorization: Bearer $SERVICE_ROLE_KEY" \
+//     -d '{"dataType":"Foundation","startPage":1,"maxPages":20}'
+//
+// Repeat with `startPage = nextPage` until it comes back null.
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { ENERGY_NUTRIENTS, resolveEnergy } from '../_shared/energy.ts';
+
+const FDC_BASE = 'https://api.nal.usda.gov/fdc/v1';
+const DATA_TYPES = ['Foundation', 'SR Legacy', 'Survey (FNDDS)'];
+const PAGE_SIZE = 200;
+
+// Abridged nutrient numbers (the list endpoint reports `number`, not id)
+const N = {
+  protein: '203',
+  fat: '204',
+  carbs: '205',
+  fiber: '291',
+};
+
+type ListedFood = {
+  fdcId: number;
+  description: string;
+  dataType: string;
+  foodNutrients?: Array<{ number?: string; amount?: number }>;
+};
+
+function finiteOrNull(x: number) {
+  return Number.isFinite(x) ? x : null;
+}
+
+// Mirrors the ff/pf/wf/ef helpers in the app, per 100 g
+function toIndexRow(food: ListedFood) {
+  const amount = (number: string) =>
+    Number(food.foodNutrients?.find((n) => n.number === number)?.amount) || 0;
+  const protein = amount(N.protein);
+  const fat = amount(N.fat);
+  const carbs = amount(N.carbs);
+  const fiber = amount(N.fiber);
+  const calories = resolveEnergy({
+    energy: amount(ENERGY_NUTRIENTS.energy.number),
+    atwaterSpecific: amount(ENERGY_NUTRIENTS.atwaterSpecific.number),
+    atwaterGeneral: amount(ENERGY_NUTRIENTS.atwaterGeneral.number),
+    protein,
+    fat,
+    carbs,
+  });
+  const ff = fiber > 0 ? calories / fiber : Infinity;
+  const pf = protein > 0 ? calories / protein : Infinity;
+  const wf = Number.isFinite(ff) && Number.isFinite(pf) ? ff + pf : Infinity;
+  return {
+    fdc_id: food.fdcId,
+    description: food.description,
+    data_type: food.dataType,
+    calories,
+    protein,
+    fat,
+    carbs,
+    fiber,
+    ff: finiteOrNull(ff),
+    pf: finiteOrNull(pf),
+    wf: finiteOrNull(wf),
+    ef: calories / 100,
+    updated_at: new Date().toISOString(),
+  };
+}
+
+function json(status: number, body: unknown) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+Deno.serve(async (req) => {
+  if (req.method !== 'POST') return json(405, { error: 'Method not allowed' });
+
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceKey}`) {
+    return json(403, { error: 'The food index can only be rebuilt with the service role key' });
+  }
+  const apiKey = Deno.env.get('FDC_API_KEY');
+  if (!apiKey) return json(500, { error: 'FDC_API_KEY is not set' });
+
+  const body = await req.json().catch(() => ({}));
+  const dataType = String(body?.dataType ?? '');
+  if (!DATA_TYPES.includes(dataType)) {
+    return json(400, { error: `dataType must be one of ${DATA_TYPES.join(', ')}` });
+  }
+  const startPage = Math.max(1, Number(body?.startPage) || 1);
+  const maxPages = Math.max(1, Math.min(50, Number(body?.maxPages) || 20));
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, serviceKey);
+  let indexed = 0;
+  for (let page = startPage; page < startPage + maxPages; page++) {
+    const url = new URL(`${FDC_BASE}/foods/list`);
+    url.searchParams.set('api_key', apiKey);
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ dataType: [dataType], pageSize: PAGE_SIZE, pageNumber: page }),
+    });
+    if (!res.ok) {
+      return json(502, { error: `USDA returned ${res.status}`, indexed, nextPage: page });
+    }
+    const foods: ListedFood[] = await res.json();
+    if (!Array.isArray(foods) || foods.length === 0) return json(200, { indexed, nextPage: null });
+
+    const { error } = await admin.from('food_index').upsert(foods.map(toIndexRow));
+    if (error) {
+      console.error('Error writing food index:', error);
+      return json(500, { error: 'Could not write food index', indexed, nextPage: page });
+    }
+    indexed += foods.length;
+    if (foods.length < PAGE_SIZE) return json(200, { indexed, nextPage: null });
+  }
+  return json(200, { indexed, nextPage: startPage + maxPages });
+});
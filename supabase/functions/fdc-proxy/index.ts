@@ -0,0 +1,179 @@
+// === USDA FoodData Central proxy ===
+// Forwards GET /foods/search, GET /food/{fdcId} and POST /foods (up to
+// MAX_BATCH ids) to api.nal.usda.gov so the app never puts an API key in a
+// browser URL. Requests use the shared FDC_API_KEY secret unless the caller
+// sends a personal key in the x-fdc-api-key header, and each signed-in user is
+// limited to RATE_LIMIT requests per RATE_WINDOW_SECONDS.
+// Food documents are cached in the usda_foods table for CACHE_TTL_DAYS and
+// served from there without touching USDA or the caller's rate limit.
+//
+// Deploy: supabase secrets set FDC_API_KEY=... && supabase functions deploy fdc-proxy
+
+import { createClient, type SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+const FDC_BASE = 'https://api.nal.usda.gov/fdc/v1';
+const RATE_LIMIT = Number(Deno.env.get('FDC_RATE_LIMIT') ?? 120);
+const RATE_WINDOW_SECONDS = Number(Deno.env.get('FDC_RATE_WINDOW_SECONDS') ?? 60);
+const CACHE_TTL_DAYS = Number(Deno.env.get('USDA_CACHE_TTL_DAYS') ?? 30);
+// USDA accepts at most 20 ids per POST /foods
+const MAX_BATCH = 20;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-fdc-api-key',
+};
+
+type Route =
+  | { kind: 'search' }
+  | { kind: 'food'; fdcId: number }
+  | { kind: 'foods' };
+
+function json(status: number, body: unknown, extra: Record<string, string> = {}) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json', ...extra },
+  });
+}
+
+// Maps the path after the function name onto a USDA endpoint; anything else is refused
+function route(method: string, pathname: string): Route | null {
+  const rest = pathname.replace(/^.*\/fdc-proxy/, '');
+  if (method === 'GET' && rest === '/foods/search') return { kind: 'search' };
+  if (method === 'POST' && rest === '/foods') return { kind: 'foods' };
+  const food = rest.match(/^\/food\/(\d+)$/);
+  if (method === 'GET' && food) return { kind: 'food', fdcId: Number(food[1]) };
+  return null;
+}
+
+async function readCache(admin: SupabaseClient, ids: number[]) {
+  const found = new Map<number, unknown>();
+  if (ids.length === 0) return found;
+  const cutoff = new Date(Date.now() - CACHE_TTL_DAYS * 86400000).toISOString();
+  const { data, error } = await admin
+    .from('usda_foods')
+    .select('fdc_id, data')
+    .in('fdc_id', ids)
+    .gte('fetched_at', cutoff);
+  if (error) console.error('Error reading USDA cache:', error);
+  (data || []).forEach((r) => found.set(Number(r.fdc_id), r.data));
+  return found;
+}
+
+async function writeCache(admin: SupabaseClient, foods: Array<{ fdcId?: number }>) {
+  const now = new Date().toISOString();
+  const rows = foods
+    .filter((f) => Number.isFinite(f?.fdcId))
+    .map((f) => ({ fdc_id: f.fdcId, data: f, fetched_at: now }));
+  if (rows.length === 0) return;
+  const { error } = await admin.from('usda_foods').upsert(rows);
+  if (error) console.error('Error writing USDA cache:', error);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') return new Response('ok', { headers: corsHeaders });
+
+  const url = new URL(req.url);
+  const target = route(req.method, url.pathname);
+  if (!target) return json(404, { error: 'Unknown endpoint' });
+
+  const authorization = req.headers.get('Authorization');
+  if (!authorization) return json(401, { error: 'Sign in to search foods' });
+
+  // Acting as the caller verifies their token
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_ANON_KEY')!,
+    { global: { headers: { Authorization: authorization } } }
+  );
+  const { data: userData, error: userError } = await supabase.auth.getUser();
+  if (userError || !userData.user) return json(401, { error: 'Sign in to search foods' });
+
+  // The cache and the rate limits are written with the service role; users
+  // may only read the cache and cannot touch their own quota
+  const admin = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  let ids: number[] = [];
+  if (target.kind === 'food') ids = [target.fdcId];
+  if (target.kind === 'foods') {
+    const body = await req.json().catch(() => null);
+    ids = Array.isArray(body?.fdcIds)
+      ? [...new Set<number>(body.fdcIds.map(Number).filter(Number.isInteger))]
+      : [];
+    if (ids.length === 0 || ids.length > MAX_BATCH) {
+      return json(400, { error: `Send between 1 and ${MAX_BATCH} fdcIds` });
+    }
+  }
+  const cached = await readCache(admin, ids);
+  const missing = ids.filter((id) => !cached.has(id));
+  if (target.kind === 'food' && missing.length === 0) {
+    return json(200, cached.get(target.fdcId), { 'X-Cache': 'hit' });
+  }
+  if (target.kind === 'foods' && missing.length === 0) {
+    return json(200, [...cached.values()], { 'X-Cache': 'hit' });
+  }
+
+  const { data: allowed, error: quotaError } = await admin.rpc('consume_fdc_quota', {
+    p_user_id: userData.user.id,
+    p_limit: RATE_LIMIT,
+    p_window_seconds: RATE_WINDOW_SECONDS,
+  });
+  if (quotaError) {
+    console.error('Error checking rate limit:', quotaError);
+    return json(500, { error: 'Could not check rate limit' });
+  }
+  if (!allowed) {
+    return json(
+      429,
+      { error: 'Too many food searches; wait a minute and try again.' },
+      { 'Retry-After': String(RATE_WINDOW_SECONDS) }
+    );
+  }
+
+  const apiKey = req.headers.get('x-fdc-api-key')?.trim() || Deno.env.get('FDC_API_KEY');
+  if (!apiKey) return json(500, { error: 'The food search service is not configured' });
+
+  try {
+    if (target.kind === 'foods') {
+      const upstream = new URL(`${FDC_BASE}/foods`);
+      upstream.searchParams.set('api_key', apiKey);
+      const res = await fetch(upstream, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fdcIds: missing }),
+      });
+      if (!res.ok) return json(res.status, { error: `USDA returned ${res.status}` });
+      const foods = await res.json();
+      const fetched = Array.isArray(foods) ? foods : [];
+      await writeCache(admin, fetched);
+      return json(200, [...cached.values(), ...fetched], { 'X-Cache': 'miss' });
+    }
+
+    const upstream = new URL(
+      FDC_BASE + (target.kind === 'food' ? `/food/${target.fdcId}` : '/foods/search')
+    );
+    url.searchParams.forEach((value, key) => {
+      if (key !== 'api_key') upstream.searchParams.set(key, value);
+    });
+    upstream.searchParams.set('api_key', apiKey);
+    const res = await fetch(upstream);
+    if (target.kind === 'food' && res.ok) {
+      const food = await res.json();
+      await writeCache(admin, [food]);
+      return json(200, food, { 'X-Cache': 'miss' });
+    }
+    return new Response(res.body, {
+      status: res.status,
+      headers: {
+        ...corsHeaders,
+        'Content-Type': res.headers.get('Content-Type') ?? 'application/json',
+      },
+    });
+  } catch (error) {
+    console.error('Error reaching USDA:', error);
+    return json(502, { error: 'Could not reach USDA FoodData Central' });
+  }
+});
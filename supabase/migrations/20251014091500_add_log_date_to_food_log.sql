@@ -0,0 +1,27 @@
+/*
+  # Add log_date to food_log
+
+  1. Changes
+    - Add `log_date` (date) column to `food_log` so entries are kept per calendar day
+    - Backfill existing rows from `created_at`
+    - Add index on (user_id, log_date) for per-day lookups
+
+  2. Notes
+    - `log_date` is the user's local calendar day, sent by the client on insert
+    - Existing entries keep the day they were created on instead of being wiped
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'food_log' AND column_name = 'log_date'
+  ) THEN
+    ALTER TABLE food_log ADD COLUMN log_date date;
+    UPDATE food_log SET log_date = COALESCE(created_at, now())::date;
+    ALTER TABLE food_log ALTER COLUMN log_date SET DEFAULT CURRENT_DATE;
+    ALTER TABLE food_log ALTER COLUMN log_date SET NOT NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_food_log_user_date ON food_log(user_id, log_date);
@@ -0,0 +1,25 @@
+/*
+  # Add meal slot to food_log
+
+  1. Changes
+    - Add `meal` (text) column to `food_log`
+    - Valid values: 'breakfast', 'lunch', 'dinner', 'snacks'
+
+  2. Notes
+    - Existing entries default to 'snacks'
+    - The Food Log groups entries by meal and shows per-meal totals
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'food_log' AND column_name = 'meal'
+  ) THEN
+    ALTER TABLE food_log ADD COLUMN meal text NOT NULL DEFAULT 'snacks';
+  END IF;
+END $$;
+
+ALTER TABLE food_log DROP CONSTRAINT IF EXISTS check_food_log_meal;
+ALTER TABLE food_log ADD CONSTRAINT check_food_log_meal
+  CHECK (meal IN ('breakfast', 'lunch', 'dinner', 'snacks'));
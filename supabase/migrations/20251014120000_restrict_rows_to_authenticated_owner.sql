@@ -0,0 +1,142 @@
+/*
+  # Restrict all tables to their authenticated owner
+
+  1. Security
+    - Drop the permissive "Allow all operations" policies on
+      `user_settings`, `food_log`, `favorites` and `custom_foods`
+    - Add select/insert/update/delete policies for the `authenticated` role
+      that only match rows where `auth.uid() = user_id`
+
+  2. Changes
+    - `user_id` now defaults to `auth.uid()` instead of the shared
+      placeholder id `00000000-0000-0000-0000-000000000000`
+    - Add foreign keys from `user_id` to `auth.users(id)` with
+      ON DELETE CASCADE so a deleted account takes its data with it
+
+  3. Notes
+    - The foreign keys are added NOT VALID so existing rows owned by the
+      placeholder id do not block the migration; those rows are no longer
+      readable through the API
+*/
+
+-- user_settings
+DROP POLICY IF EXISTS "Allow all operations on user_settings" ON user_settings;
+
+CREATE POLICY "Users can read own settings"
+  ON user_settings FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own settings"
+  ON user_settings FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own settings"
+  ON user_settings FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own settings"
+  ON user_settings FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- food_log
+DROP POLICY IF EXISTS "Allow all operations on food_log" ON food_log;
+
+CREATE POLICY "Users can read own food log"
+  ON food_log FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own food log"
+  ON food_log FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own food log"
+  ON food_log FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own food log"
+  ON food_log FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- favorites
+DROP POLICY IF EXISTS "Allow all operations on favorites" ON favorites;
+
+CREATE POLICY "Users can read own favorites"
+  ON favorites FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own favorites"
+  ON favorites FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own favorites"
+  ON favorites FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own favorites"
+  ON favorites FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- custom_foods
+DROP POLICY IF EXISTS "Allow all operations on custom_foods" ON custom_foods;
+
+CREATE POLICY "Users can read own custom foods"
+  ON custom_foods FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own custom foods"
+  ON custom_foods FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own custom foods"
+  ON custom_foods FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own custom foods"
+  ON custom_foods FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Default ownership to the signed-in user
+ALTER TABLE user_settings ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE food_log ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE favorites ALTER COLUMN user_id SET DEFAULT auth.uid();
+ALTER TABLE custom_foods ALTER COLUMN user_id SET DEFAULT auth.uid();
+
+-- Tie rows to auth.users
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'user_settings' AND constraint_name = 'user_settings_user_id_fkey'
+  ) THEN
+    ALTER TABLE user_settings ADD CONSTRAINT user_settings_user_id_fkey
+      FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE NOT VALID;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'food_log' AND constraint_name = 'food_log_user_id_fkey'
+  ) THEN
+    ALTER TABLE food_log ADD CONSTRAINT food_log_user_id_fkey
+      FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE NOT VALID;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'favorites' AND constraint_name = 'favorites_user_id_fkey'
+  ) THEN
+    ALTER TABLE favorites ADD CONSTRAINT favorites_user_id_fkey
+      FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE NOT VALID;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_name = 'custom_foods' AND constraint_name = 'custom_foods_user_id_fkey'
+  ) THEN
+    ALTER TABLE custom_foods ADD CONSTRAINT custom_foods_user_id_fkey
+      FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE NOT VALID;
+  END IF;
+END $$;
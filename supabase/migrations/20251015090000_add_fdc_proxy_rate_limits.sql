@@ -0,0 +1,69 @@
+/*
+  # Rate limits for the USDA FoodData Central proxy
+
+  1. New Tables
+    - `fdc_rate_limits`
+      - `user_id` (uuid, primary key) - references auth.users
+      - `window_start` (timestamptz) - start of the current counting window
+      - `request_count` (integer) - requests made in the current window
+
+  2. New Functions
+    - `consume_fdc_quota(p_user_id, p_limit, p_window_seconds)` counts one
+      request for the given user and returns false once they are over the limit
+
+  3. Security
+    - RLS is enabled with no policies, so the table is only reachable through
+      `consume_fdc_quota`
+    - Only the `service_role` may execute `consume_fdc_quota`. The fdc-proxy
+      edge function calls it with the verified user's id; signed-in users
+      cannot call it themselves to pass their own limit or window
+
+  4. Notes
+    - `user_settings.fdc_api_key` is left in place; the app moves any saved
+      key into the browser on next load and blanks the column itself
+*/
+
+CREATE TABLE IF NOT EXISTS fdc_rate_limits (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  window_start timestamptz NOT NULL DEFAULT now(),
+  request_count integer NOT NULL DEFAULT 0
+);
+
+ALTER TABLE fdc_rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION consume_fdc_quota(
+  p_user_id uuid,
+  p_limit integer,
+  p_window_seconds integer
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO fdc_rate_limits AS r (user_id, window_start, request_count)
+  VALUES (p_user_id, now(), 1)
+  ON CONFLICT (user_id) DO UPDATE
+    SET window_start = CASE
+          WHEN r.window_start < now() - make_interval(secs => p_window_seconds) THEN now()
+          ELSE r.window_start
+        END,
+        request_count = CASE
+          WHEN r.window_start < now() - make_interval(secs => p_window_seconds) THEN 1
+          ELSE r.request_count + 1
+        END
+  RETURNING request_count INTO v_count;
+
+  RETURN v_count <= p_limit;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION consume_fdc_quota(uuid, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_fdc_quota(uuid, integer, integer) TO service_role;
@@ -0,0 +1,33 @@
+/*
+  # Create USDA Foods Cache Table
+
+  1. New Tables
+    - `usda_foods`
+      - `fdc_id` (bigint, primary key) - FoodData Central id
+      - `data` (jsonb) - Food document as returned by `/food/{fdcId}`
+      - `fetched_at` (timestamptz) - When the document was fetched from USDA
+
+  2. Security
+    - Enable RLS on usda_foods table
+    - Signed-in users can read every row; USDA data is public and shared
+    - There are no write policies; only the `fdc-proxy` edge function
+      writes to the table, using the service role
+
+  3. Notes
+    - Rows older than the cache TTL (30 days by default) are refetched by the
+      proxy on the next request and overwritten
+*/
+
+CREATE TABLE IF NOT EXISTS usda_foods (
+  fdc_id bigint PRIMARY KEY,
+  data jsonb NOT NULL,
+  fetched_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE usda_foods ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read cached USDA foods"
+  ON usda_foods FOR SELECT TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_usda_foods_fetched_at ON usda_foods(fetched_at);
@@ -0,0 +1,53 @@
+/*
+  # Create Food Index Table
+
+  1. New Tables
+    - `food_index`
+      - `fdc_id` (bigint, primary key) - FoodData Central id
+      - `description` (text) - Food name as published by USDA
+      - `data_type` (text) - Foundation, SR Legacy or Survey (FNDDS)
+      - `calories`, `protein`, `fat`, `carbs`, `fiber` (numeric) - per 100 g
+      - `ff`, `pf`, `wf` (numeric) - factors per 100 g; NULL means infinite
+        (the food has no fiber or no protein)
+      - `ef` (numeric) - energy density, kcal per gram
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on food_index table
+    - Signed-in users can read every row
+    - Only the `build-food-index` edge function writes, using the service role
+
+  3. Notes
+    - WF mode ranks foods with a finite WF by `wf`; EF mode ranks foods with
+      an infinite WF by `ef`. The partial indexes below serve exactly those
+      two queries
+    - pg_trgm backs the description filter (`ILIKE '%query%'`)
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE TABLE IF NOT EXISTS food_index (
+  fdc_id bigint PRIMARY KEY,
+  description text NOT NULL,
+  data_type text NOT NULL,
+  calories numeric NOT NULL DEFAULT 0,
+  protein numeric NOT NULL DEFAULT 0,
+  fat numeric NOT NULL DEFAULT 0,
+  carbs numeric NOT NULL DEFAULT 0,
+  fiber numeric NOT NULL DEFAULT 0,
+  ff numeric,
+  pf numeric,
+  wf numeric,
+  ef numeric NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE food_index ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read the food index"
+  ON food_index FOR SELECT TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_food_index_wf ON food_index(wf) WHERE wf IS NOT NULL AND calories > 0;
+CREATE INDEX IF NOT EXISTS idx_food_index_ef ON food_index(ef) WHERE wf IS NULL AND calories > 0;
+CREATE INDEX IF NOT EXISTS idx_food_index_description ON food_index USING gin (description gin_trgm_ops);
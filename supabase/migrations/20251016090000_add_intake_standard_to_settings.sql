@@ -0,0 +1,23 @@
+/*
+  # Add Intake Standard to User Settings
+
+  1. Changes
+    - Add `intake_standard` text column choosing the reference intakes that
+      nutrient percentages are measured against
+    - Valid values: 'dri' (RDA/AI by age and sex) or 'fda' (label Daily Values)
+
+  2. Notes
+    - Defaults to 'dri' so existing users see targets for their profile
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'intake_standard'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN intake_standard text NOT NULL DEFAULT 'dri';
+    ALTER TABLE user_settings ADD CONSTRAINT check_user_settings_intake_standard
+      CHECK (intake_standard IN ('dri', 'fda'));
+  END IF;
+END $$;
@@ -0,0 +1,24 @@
+/*
+  # Add Energy Source to User Settings
+
+  1. Changes
+    - Add `energy_source` text column choosing how food calories are counted
+    - Valid values: 'label' (USDA/label energy), 'atwater_general' (4/9/4 from
+      macros) or 'atwater_specific' (the food's own FDC conversion factors)
+
+  2. Notes
+    - Defaults to 'label', the energy value USDA publishes for each food
+    - Foods without specific factors fall back to the general factors
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'energy_source'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN energy_source text NOT NULL DEFAULT 'label';
+    ALTER TABLE user_settings ADD CONSTRAINT check_user_settings_energy_source
+      CHECK (energy_source IN ('label', 'atwater_general', 'atwater_specific'));
+  END IF;
+END $$;
@@ -0,0 +1,30 @@
+/*
+  # Add Scoring Profiles to User Settings
+
+  1. Changes
+    - Add `scoring_profiles` jsonb column holding the user's named profiles, each
+      with FF/PF/WF/EF thresholds and optional extra factors
+    - Add `scoring_profile` text column naming the active profile
+
+  2. Notes
+    - A null `scoring_profiles` means the built-in profiles (standard, athlete,
+      weight loss); the list is stored once the user edits it
+    - `scoring_profile` defaults to 'standard', the previous fixed thresholds
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'scoring_profiles'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN scoring_profiles jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'scoring_profile'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN scoring_profile text NOT NULL DEFAULT 'standard';
+  END IF;
+END $$;
@@ -0,0 +1,40 @@
+/*
+  # Add Recipes to Custom Foods
+
+  1. Changes
+    - Add `ingredients` jsonb column: the foods a recipe is made of, each with
+      its name, grams, `fdc_id` or `custom_food_id`, and per-gram nutrients
+    - Add `yield_grams` numeric column: cooked weight of the finished recipe
+    - Add `base_per_g` jsonb column: per-gram energy, macros and nutrients of
+      the finished recipe, in the same shape as `food_log.base_per_g`
+
+  2. Notes
+    - Plain custom foods leave all three null
+    - A null `yield_grams` means the raw weight of the ingredients
+    - `amount`, `calories`, `fiber` and `protein` hold the whole recipe so
+      existing lists keep working
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'custom_foods' AND column_name = 'ingredients'
+  ) THEN
+    ALTER TABLE custom_foods ADD COLUMN ingredients jsonb;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'custom_foods' AND column_name = 'yield_grams'
+  ) THEN
+    ALTER TABLE custom_foods ADD COLUMN yield_grams numeric;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'custom_foods' AND column_name = 'base_per_g'
+  ) THEN
+    ALTER TABLE custom_foods ADD COLUMN base_per_g jsonb;
+  END IF;
+END $$;
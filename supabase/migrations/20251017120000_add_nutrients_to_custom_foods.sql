@@ -0,0 +1,49 @@
+/*
+  # Add Full Nutrients to Custom Foods
+
+  1. Changes
+    - Add `fat` and `carbs` numeric columns (grams in `amount`)
+    - Backfill `base_per_g` for every custom food that lacks it, so custom
+      foods carry per-gram energy, macros and nutrients like USDA foods
+
+  2. Notes
+    - Existing rows only have calories, protein and fiber. Their fat becomes 0
+      and their carbs the calories protein leaves (4 kcal/g), which is what the
+      app assumed for them before, so logged calories do not change
+    - New custom foods store `base_per_g` directly, with any registry nutrient
+      the user enters in `micros`
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'custom_foods' AND column_name = 'fat'
+  ) THEN
+    ALTER TABLE custom_foods ADD COLUMN fat numeric NOT NULL DEFAULT 0;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'custom_foods' AND column_name = 'carbs'
+  ) THEN
+    ALTER TABLE custom_foods ADD COLUMN carbs numeric NOT NULL DEFAULT 0;
+  END IF;
+END $$;
+
+UPDATE custom_foods
+SET carbs = GREATEST(calories - protein * 4, 0) / 4
+WHERE base_per_g IS NULL;
+
+UPDATE custom_foods
+SET base_per_g = jsonb_build_object(
+  'energy', calories / amount,
+  'protein', protein / amount,
+  'fat', 0,
+  'carbs', carbs / amount,
+  'micros', CASE WHEN fiber > 0
+    THEN jsonb_build_object('fiber', fiber / amount)
+    ELSE '{}'::jsonb
+  END
+)
+WHERE base_per_g IS NULL AND amount > 0;
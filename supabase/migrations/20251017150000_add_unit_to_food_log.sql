@@ -0,0 +1,22 @@
+/*
+  # Add Serving Unit to Food Log
+
+  1. Changes
+    - Add `unit` jsonb column to `food_log`: the unit the amount was entered
+      in (`key`, `label`, `grams` per unit) plus the food's own household
+      measures (`portions`), so the unit picker can be rebuilt after a reload
+
+  2. Notes
+    - `amount` stays in grams; `unit` only changes how it is shown and entered
+    - NULL means grams, which covers every existing row
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'food_log' AND column_name = 'unit'
+  ) THEN
+    ALTER TABLE food_log ADD COLUMN unit jsonb;
+  END IF;
+END $$;
@@ -0,0 +1,23 @@
+/*
+  # Add Energy Unit to User Settings
+
+  1. Changes
+    - Add `energy_unit` text column choosing how energy is shown and entered
+    - Valid values: 'kcal' or 'kj'
+
+  2. Notes
+    - Defaults to 'kcal'; stored values (food_log, custom_foods) stay in kcal
+      and are converted for display only
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'energy_unit'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN energy_unit text NOT NULL DEFAULT 'kcal';
+    ALTER TABLE user_settings ADD CONSTRAINT check_user_settings_energy_unit
+      CHECK (energy_unit IN ('kcal', 'kj'));
+  END IF;
+END $$;
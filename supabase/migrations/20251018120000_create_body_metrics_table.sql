@@ -0,0 +1,58 @@
+/*
+  # Create Body Metrics Table
+
+  1. New Tables
+    - `body_metrics`
+      - `id` (uuid, primary key)
+      - `user_id` (uuid) - Owner, defaults to the signed-in user
+      - `measured_on` (date) - Day the measurement was taken
+      - `weight_kg` (numeric) - Body weight in kilograms
+      - `waist_cm` (numeric, nullable) - Waist circumference in centimetres
+      - `body_fat_pct` (numeric, nullable) - Body fat percentage
+      - `created_at` (timestamptz)
+      - `updated_at` (timestamptz)
+
+  2. Security
+    - Enable RLS on body_metrics table
+    - Select/insert/update/delete policies for the `authenticated` role that
+      only match rows where `auth.uid() = user_id`
+
+  3. Notes
+    - One entry per user and day; the app replaces an existing entry when the
+      same date is saved again
+    - The latest weight fills in the weight used for BMR and TDEE
+    - Values are stored in metric units; the app converts them for display
+*/
+
+CREATE TABLE IF NOT EXISTS body_metrics (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  measured_on date NOT NULL,
+  weight_kg numeric NOT NULL CHECK (weight_kg > 0),
+  waist_cm numeric CHECK (waist_cm > 0),
+  body_fat_pct numeric CHECK (body_fat_pct > 0 AND body_fat_pct < 100),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, measured_on)
+);
+
+ALTER TABLE body_metrics ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own body metrics"
+  ON body_metrics FOR SELECT TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own body metrics"
+  ON body_metrics FOR INSERT TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own body metrics"
+  ON body_metrics FOR UPDATE TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own body metrics"
+  ON body_metrics FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS idx_body_metrics_user_date ON body_metrics(user_id, measured_on);
@@ -0,0 +1,80 @@
+/*
+  # Add Profile to User Settings
+
+  1. Changes
+    - Add the Your Details profile to `user_settings`:
+      - `units` (text) - 'us' or 'metric', default 'us'
+      - `sex` (text) - 'male' or 'female', default 'male'
+      - `age` (integer, nullable) - Years
+      - `height_cm` (numeric, nullable) - Height in centimetres
+      - `weight_kg` (numeric, nullable) - Weight in kilograms
+      - `activity` (numeric) - TDEE activity multiplier, default 1.55
+      - `goal` (text) - 'maintain', 'cut10', 'cut20', 'gain10' or 'gain20'
+
+  2. Notes
+    - Height and weight are stored once in metric; the app fills in both the
+      US and metric inputs from them
+    - The app only saves values that pass its input rules, so NULL means the
+      user has not entered a valid value yet
+    - The checks allow the largest values the US inputs accept (9 ft 11 in,
+      1500 lb), which are slightly above the metric limits
+    - Logged body measurements (`body_metrics`) still provide the latest weight
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'units'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN units text NOT NULL DEFAULT 'us';
+    ALTER TABLE user_settings ADD CONSTRAINT check_user_settings_units
+      CHECK (units IN ('us', 'metric'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'sex'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN sex text NOT NULL DEFAULT 'male';
+    ALTER TABLE user_settings ADD CONSTRAINT check_user_settings_sex
+      CHECK (sex IN ('male', 'female'));
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'age'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN age integer CHECK (age > 0 AND age <= 120);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'height_cm'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN height_cm numeric CHECK (height_cm > 0 AND height_cm <= 305);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'weight_kg'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN weight_kg numeric CHECK (weight_kg > 0 AND weight_kg <= 681);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'activity'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN activity numeric NOT NULL DEFAULT 1.55;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'goal'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN goal text NOT NULL DEFAULT 'maintain';
+    ALTER TABLE user_settings ADD CONSTRAINT check_user_settings_goal
+      CHECK (goal IN ('maintain', 'cut10', 'cut20', 'gain10', 'gain20'));
+  END IF;
+END $$;
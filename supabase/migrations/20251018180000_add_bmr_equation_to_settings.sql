@@ -0,0 +1,27 @@
+/*
+  # Add BMR Equation to User Settings
+
+  1. Changes
+    - Add `bmr_equation` text column choosing how BMR is estimated
+    - Valid values: 'mifflin_st_jeor', 'harris_benedict' (revised),
+      'katch_mcardle', 'cunningham' or 'who_fao_unu'
+
+  2. Notes
+    - Defaults to 'mifflin_st_jeor', the equation the app always used
+    - Katch–McArdle and Cunningham use the latest body fat from
+      `body_metrics`; without one the app falls back to Mifflin–St Jeor
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'user_settings' AND column_name = 'bmr_equation'
+  ) THEN
+    ALTER TABLE user_settings ADD COLUMN bmr_equation text NOT NULL DEFAULT 'mifflin_st_jeor';
+    ALTER TABLE user_settings ADD CONSTRAINT check_user_settings_bmr_equation
+      CHECK (bmr_equation IN (
+        'mifflin_st_jeor', 'harris_benedict', 'katch_mcardle', 'cunningham', 'who_fao_unu'
+      ));
+  END IF;
+END $$;